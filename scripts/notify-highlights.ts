@@ -0,0 +1,81 @@
+// 新精華通知：npm run notify:highlights [-- --dry-run] [--fixtures <dir>] [--config <file>] [--state <file>]
+//
+// 比對播放清單最新一頁與上次看到的影片 id，對 webhooks 設定檔中的訂閱發送通知，適合放進 cron 定期跑。
+// 第一次執行只記錄目前最新的影片，不會把舊片全部發出去。
+// 上次送失敗（連線錯誤、5xx、429）的通知記在狀態檔，下次執行時重送。
+// --dry-run 只印出會送出的內容，不送出也不更新狀態檔；--fixtures 改讀錄製好的 YouTube 回應。
+import {
+  checkAndNotify,
+  configPath,
+  readSubscriptions,
+  statePath,
+} from '../src/app/lib/notify';
+import {
+  fixtureFetch,
+  isUpstreamStubbed,
+  setUpstreamFetch,
+} from '../src/app/lib/upstream';
+
+function arg(name: string) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+async function main() {
+  const fixtures = arg('fixtures');
+  const dryRun = process.argv.includes('--dry-run');
+  const config = arg('config') ?? configPath();
+  const state = arg('state') ?? statePath();
+
+  if (fixtures) {
+    setUpstreamFetch(fixtureFetch(fixtures));
+  } else if (!process.env.YOUTUBE_API_KEY && !isUpstreamStubbed()) {
+    throw new Error('Missing YOUTUBE_API_KEY (or pass --fixtures <dir>)');
+  }
+
+  const subscriptions = await readSubscriptions(config);
+  if (!subscriptions.length)
+    console.warn(`[notify] no subscriptions in ${config}`);
+
+  const { baseline, latestId, fresh, deliveries } = await checkAndNotify({
+    subscriptions,
+    state,
+    dryRun,
+  });
+
+  if (baseline) {
+    console.log(
+      dryRun
+        ? `[notify] first run (dry run): would record latest video ${latestId}, state not written`
+        : `[notify] first run: recorded latest video ${latestId} → ${state}`
+    );
+    if (!deliveries.length) return;
+  }
+  for (const d of deliveries) {
+    const tag = d.dryRun
+      ? 'dry-run'
+      : d.ok
+      ? 'sent'
+      : d.pending
+      ? 'FAILED (will retry next run)'
+      : 'FAILED';
+    const note = d.error
+      ? ` (${d.error}, ${d.attempts} attempt(s))`
+      : d.attempts > 1
+      ? ` (${d.attempts} attempts)`
+      : '';
+    console.log(`[notify] ${tag} ${d.videoId} → ${d.url}${note}`);
+    if (d.dryRun) console.log(JSON.stringify(d.payload, null, 2));
+  }
+  console.log(
+    `[notify] ${fresh.length} new video(s), ${deliveries.length} delivery(ies)${
+      dryRun ? ' (dry run)' : ''
+    }`
+  );
+  if (deliveries.some((d) => !d.ok)) process.exitCode = 1;
+}
+
+main().catch((e) => {
+  console.error(`[notify] ${e?.message ?? e}`);
+  process.exit(1);
+});
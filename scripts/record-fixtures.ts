@@ -0,0 +1,107 @@
+// 錄製官網回應當作離線錄製檔：npm run record:fixtures [-- --year 2025] [--date 2025-06-14] [--game 121] [--out fixtures] [url...]
+//
+// 預設錄下測試與離線模式用到的頁面：全年戰績、某日賽程、某場 box score、個人打擊/投球成績。
+// 也可以直接給官網網址。檔名依網址與查詢參數決定（見 upstream.ts 的 fixtureName），重複執行會覆寫。
+// 有 YOUTUBE_API_KEY 時另外錄下全場精華播放清單的前 --pages 頁（預設 2）與這些影片的 videos.list。
+import { promises as fs } from 'fs';
+import path from 'path';
+import { boxUrl } from '../src/app/lib/boxScore';
+import { fetchCpblPage } from '../src/app/lib/cpbl';
+import { statsUrl } from '../src/app/lib/playerStats';
+import { DEFAULT_KIND_CODE } from '../src/app/lib/records';
+import { scheduleUrl } from '../src/app/lib/schedule';
+import { standingsUrl } from '../src/app/lib/standings';
+import { fixtureName, isUpstreamStubbed } from '../src/app/lib/upstream';
+import { FULLGAME_PLAYLIST_ID, YT } from '../src/app/lib/youtube';
+
+function arg(name: string) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+async function main() {
+  if (isUpstreamStubbed()) {
+    throw new Error('Unset UPSTREAM_FIXTURES_DIR to record from the live site');
+  }
+  const year = Number(arg('year') ?? 2025);
+  const date = arg('date') ?? `${year}-06-14`;
+  const game = Number(arg('game') ?? 121);
+  const out = arg('out') ?? 'fixtures';
+
+  const urls = process.argv.slice(2).filter((a) => /^https?:\/\//.test(a));
+  if (!urls.length) {
+    urls.push(
+      standingsUrl({ year, kindCode: DEFAULT_KIND_CODE, half: 0 }),
+      scheduleUrl(date),
+      boxUrl(year, game),
+      statsUrl('batting', year),
+      statsUrl('pitching', year)
+    );
+  }
+
+  await fs.mkdir(path.join(out, 'cpbl'), { recursive: true });
+  for (const url of urls) {
+    const file = path.join(out, 'cpbl', `${fixtureName(new URL(url))}.html`);
+    await fs.writeFile(file, await fetchCpblPage(url));
+    console.log(`[record:fixtures] ${url} → ${file}`);
+  }
+
+  const key = process.env.YOUTUBE_API_KEY;
+  if (key) await recordYouTube(out, key, Number(arg('pages') ?? 2));
+}
+
+async function getJson(url: string) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`YouTube HTTP ${res.status}: ${url}`);
+  return res.json();
+}
+
+// 錄製檔格式：{ [pageToken（第一頁為 ""）]: API 回應 }；金鑰不寫進檔案
+async function recordYouTube(out: string, key: string, pages: number) {
+  const playlist: Record<string, any> = {};
+  const ids: string[] = [];
+  let token = '';
+  for (let i = 0; i < pages; i++) {
+    const params = new URLSearchParams({
+      part: 'snippet,contentDetails,status',
+      playlistId: FULLGAME_PLAYLIST_ID,
+      maxResults: '50',
+      key,
+    });
+    if (token) params.set('pageToken', token);
+    const page = await getJson(`${YT}/playlistItems?${params}`);
+    playlist[token] = page;
+    for (const item of page.items ?? []) {
+      ids.push(item.snippet?.resourceId?.videoId);
+    }
+    // 最後一頁不留 nextPageToken，離線時才不會去要沒錄到的頁
+    if (i === pages - 1) delete page.nextPageToken;
+    token = page.nextPageToken ?? '';
+    if (!token) break;
+  }
+
+  const videos: any[] = [];
+  for (let i = 0; i < ids.length; i += 50) {
+    const params = new URLSearchParams({
+      part: 'contentDetails,statistics,status,liveStreamingDetails',
+      id: ids.slice(i, i + 50).join(','),
+      key,
+    });
+    videos.push(...((await getJson(`${YT}/videos?${params}`)).items ?? []));
+  }
+
+  await fs.mkdir(path.join(out, 'youtube'), { recursive: true });
+  for (const [name, body] of [
+    ['playlistItems', playlist],
+    ['videos', { '': { items: videos } }],
+  ] as const) {
+    const file = path.join(out, 'youtube', `${name}.json`);
+    await fs.writeFile(file, JSON.stringify(body, null, 2) + '\n');
+    console.log(`[record:fixtures] YouTube ${name} → ${file}`);
+  }
+}
+
+main().catch((e) => {
+  console.error(`[record:fixtures] ${e?.message ?? e}`);
+  process.exit(1);
+});
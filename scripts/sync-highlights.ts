@@ -0,0 +1,51 @@
+// 同步本地精華索引：npm run sync:highlights [-- --type <type>] [--fixtures <dir>] [--index <file>]
+//
+// 只抓播放清單中尚未收錄的新影片，重複執行不會產生重複資料，適合放進 cron 定期跑。
+// 預設同步所有已設定來源的影片類型，--type 只同步其中一種（--index 只能搭配單一類型）。
+// --fixtures 改讀錄製好的 YouTube 回應（例如 fixtures/），不打真正的 API。
+import { isContentType } from '../src/app/lib/contentTypes';
+import { syncIndex, indexPath } from '../src/app/lib/highlightIndex';
+import { loadSources } from '../src/app/lib/sources';
+import {
+  fixtureFetch,
+  isUpstreamStubbed,
+  setUpstreamFetch,
+} from '../src/app/lib/upstream';
+
+function arg(name: string) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+async function main() {
+  const fixtures = arg('fixtures');
+  const type = arg('type');
+  if (type !== undefined && !isContentType(type)) {
+    throw new Error(`Unknown type: ${type}`);
+  }
+
+  if (fixtures) {
+    setUpstreamFetch(fixtureFetch(fixtures));
+  } else if (!process.env.YOUTUBE_API_KEY && !isUpstreamStubbed()) {
+    throw new Error('Missing YOUTUBE_API_KEY (or pass --fixtures <dir>)');
+  }
+
+  const sources = (await loadSources()).filter((s) => !type || s.type === type);
+  if (!sources.length) throw new Error(`No source configured for ${type}`);
+  if (arg('index') && sources.length > 1) {
+    throw new Error('--index needs a single --type');
+  }
+
+  for (const source of sources) {
+    const file = arg('index') ?? indexPath(source.type);
+    const result = await syncIndex({ playlistId: source.playlistId, file });
+    console.log(
+      `[sync:highlights] ${source.type}: +${result.added} new, ${result.total} total, ${result.pages} page(s) → ${file}`
+    );
+  }
+}
+
+main().catch((e) => {
+  console.error(`[sync:highlights] ${e?.message ?? e}`);
+  process.exit(1);
+});
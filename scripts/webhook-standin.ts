@@ -0,0 +1,36 @@
+// 本機 webhook 替身：npm run webhook:standin [-- --port 4010] [--fail 2] [--status 500]
+//
+// 印出收到的每個 POST 內容，搭配 notify:highlights 測試通知而不必打真正的 Discord/Slack。
+// --fail N 讓前 N 個請求回 --status（預設 500），用來驗證重試與退避。--port 0 時由系統挑空的埠。
+import http from 'http';
+
+function arg(name: string) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+const port = Number(arg('port') ?? 4010);
+let failures = Number(arg('fail') ?? 0);
+const failStatus = Number(arg('status') ?? 500);
+let received = 0;
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    received++;
+    const fail = failures > 0;
+    if (fail) failures--;
+    console.log(
+      `[standin] #${received} ${req.method} ${req.url} → ${
+        fail ? failStatus : 204
+      }`
+    );
+    if (body) console.log(body);
+    res.writeHead(fail ? failStatus : 204).end();
+  });
+});
+server.listen(port, () => {
+  const { port: actual } = server.address() as { port: number };
+  console.log(`[standin] listening on http://localhost:${actual}`);
+});
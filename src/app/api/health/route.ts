@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { indexPath, readIndex } from '../../lib/highlightIndex';
+import { quotaStatus } from '../../lib/quota';
+import { loadSources } from '../../lib/sources';
+import { isUpstreamStubbed } from '../../lib/upstream';
+import { playlistCache } from '../../lib/youtube';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/health
+// YouTube 配額用量（本行程）、播放清單快取命中率與各類型本地索引的同步時間
+export async function GET() {
+  const quota = quotaStatus();
+  const sources = await loadSources();
+  const indexes = await Promise.all(
+    sources.map(async (s) => {
+      const index = await readIndex(indexPath(s.type)).catch(() => null);
+      return {
+        type: s.type,
+        playlistId: s.playlistId,
+        // 索引對應的播放清單與設定不同時不會被使用
+        indexed: index?.playlistId === s.playlistId,
+        videos: index?.videos.length ?? 0,
+        syncedAt: index?.syncedAt || null,
+      };
+    })
+  );
+
+  const body = {
+    // ok：正常；conserving：配額快用完，優先用快取；exhausted：只能回快取
+    status: quota.exhausted
+      ? 'exhausted'
+      : quota.conserving
+      ? 'conserving'
+      : 'ok',
+    time: new Date().toISOString(),
+    youtube: {
+      apiKey: Boolean(process.env.YOUTUBE_API_KEY) || isUpstreamStubbed(),
+      quota,
+      cache: playlistCache.stats(),
+    },
+    sources: indexes,
+  };
+
+  return new NextResponse(JSON.stringify(body), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import {
+  buildIcs,
+  feedLocale,
+  feedTitle,
+  feedVideos,
+  parseFeedFilter,
+} from '../../../lib/feeds';
+import { highlightErrorStatus } from '../../../lib/highlightSearch';
+import type { Video } from '../../../lib/highlights';
+
+export const runtime = 'nodejs';
+
+// GET /api/highlights/calendar.ics?team=dragons[&lang=en]
+// 已上架的影片（預設全場精華），以比賽日期為全天事件；篩選參數與 /api/highlights 相同
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const filter = parseFeedFilter(url.searchParams);
+  if (typeof filter === 'string') {
+    return NextResponse.json({ error: filter }, { status: 400 });
+  }
+
+  let videos: Video[];
+  try {
+    videos = await feedVideos(filter);
+  } catch (e) {
+    const status = highlightErrorStatus(e);
+    if (status === null) throw e;
+    return NextResponse.json({ error: (e as Error).message }, { status });
+  }
+
+  const locale = feedLocale(url.searchParams);
+  return new NextResponse(
+    buildIcs(videos, {
+      title: feedTitle(filter, locale),
+      origin: url.origin,
+      locale,
+    }),
+    {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="cpbl-highlights.ics"',
+        'CDN-Cache-Control': 'public, s-maxage=600, stale-while-revalidate=300',
+      },
+    }
+  );
+}
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { fixtureFetch, setUpstreamFetch } from '../../../lib/upstream';
+import { playlistCache } from '../../../lib/youtube';
+import { GET as calendar } from '../calendar.ics/route';
+import { GET } from './route';
+
+const get = async (handler: typeof GET, path: string, qs: string) => {
+  const res = await handler(new Request(`http://localhost${path}?${qs}`));
+  return { status: res.status, text: await res.text() };
+};
+
+describe('highlight feeds', () => {
+  beforeEach(() => {
+    playlistCache.clear();
+    setUpstreamFetch(fixtureFetch('fixtures'));
+  });
+  afterEach(() => setUpstreamFetch(null));
+
+  it('writes Atom summaries in the requested language', async () => {
+    const en = await get(GET, '/api/highlights/feed.xml', 'lang=en');
+    expect(en.status).toBe(200);
+    expect(en.text).toContain('<title>CPBL Full games</title>');
+    expect(en.text).toContain(
+      '<summary>2025-06-14 CTBC Brothers vs Uni-President 7-Eleven Lions</summary>'
+    );
+
+    // 預設 zh-TW
+    const zh = await get(GET, '/api/highlights/feed.xml', '');
+    expect(zh.text).toContain(
+      '<summary>2025-06-14 中信兄弟 vs 統一7-ELEVEn獅</summary>'
+    );
+  });
+
+  it('writes RSS and iCal descriptions in the requested language', async () => {
+    const rss = await get(
+      GET,
+      '/api/highlights/feed.xml',
+      'format=rss&lang=en'
+    );
+    expect(rss.text).toContain(
+      '<description>2025-06-14 Rakuten Monkeys vs Wei Chuan Dragons\n'
+    );
+
+    const ics = await get(calendar, '/api/highlights/calendar.ics', 'lang=en');
+    expect(ics.status).toBe(200);
+    // 長行會折行，比對前先接回去
+    expect(ics.text.replace(/\r\n /g, '')).toContain(
+      'DESCRIPTION:2025-06-14 Rakuten Monkeys vs Wei Chuan Dragons\\n'
+    );
+  });
+});
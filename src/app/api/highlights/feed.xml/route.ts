@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import {
+  buildAtom,
+  buildRss,
+  feedLocale,
+  feedTitle,
+  feedVideos,
+  parseFeedFilter,
+} from '../../../lib/feeds';
+import { highlightErrorStatus } from '../../../lib/highlightSearch';
+import type { Video } from '../../../lib/highlights';
+import { writeHighlightsView } from '../../../lib/viewState';
+
+export const runtime = 'nodejs';
+
+// GET /api/highlights/feed.xml?team=dragons[&format=rss][&lang=en]
+// 預設輸出 Atom；篩選參數（type / team / mustAll / q / from / to / days）與 /api/highlights 相同
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const filter = parseFeedFilter(url.searchParams);
+  if (typeof filter === 'string') {
+    return NextResponse.json({ error: filter }, { status: 400 });
+  }
+
+  let videos: Video[];
+  try {
+    videos = await feedVideos(filter);
+  } catch (e) {
+    const status = highlightErrorStatus(e);
+    if (status === null) throw e;
+    return NextResponse.json({ error: (e as Error).message }, { status });
+  }
+
+  // 對應的首頁網址（與首頁的分享連結一致）
+  const site = new URL('/', url.origin);
+  writeHighlightsView(site.searchParams, {
+    type: filter.type,
+    teams: filter.teams,
+    from: filter.from,
+    to: filter.to,
+    sort: 'latest',
+  });
+
+  const locale = feedLocale(url.searchParams);
+  const meta = {
+    title: feedTitle(filter, locale),
+    selfUrl: url.toString(),
+    siteUrl: site.toString(),
+    origin: url.origin,
+    locale,
+  };
+  const rss = url.searchParams.get('format') === 'rss';
+
+  return new NextResponse(
+    rss ? buildRss(videos, meta) : buildAtom(videos, meta),
+    {
+      headers: {
+        'Content-Type': rss
+          ? 'application/rss+xml; charset=utf-8'
+          : 'application/atom+xml; charset=utf-8',
+        // 訂閱器輪詢頻率高，交給 CDN 快取
+        'CDN-Cache-Control': 'public, s-maxage=600, stale-while-revalidate=300',
+      },
+    }
+  );
+}
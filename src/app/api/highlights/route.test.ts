@@ -0,0 +1,173 @@
+import { rm } from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  MAX_RANKED_VIDEOS,
+  type HighlightsResponse,
+} from '../../lib/highlights';
+import { indexPath, writeIndex } from '../../lib/highlightIndex';
+import { rankingCache } from '../../lib/highlightSearch';
+import { getSource } from '../../lib/sources';
+import { fixtureFetch, setUpstreamFetch } from '../../lib/upstream';
+import { playlistCache, toVideo } from '../../lib/youtube';
+import { GET } from './route';
+
+type Body = HighlightsResponse & { debug: Record<string, unknown> };
+
+const get = async (qs: string) => {
+  const res = await GET(new Request(`http://localhost/api/highlights?${qs}`));
+  return { status: res.status, body: (await res.json()) as Body };
+};
+
+const gameNos = (body: Body) => body.items.map((v) => v.gameNo);
+
+describe('GET /api/highlights', () => {
+  beforeEach(() => {
+    // 錄製檔的影片在 2025-06-12～14 上架；把「現在」固定在台北時間 6/15 早上
+    vi.useFakeTimers({
+      toFake: ['Date'],
+      now: new Date('2025-06-15T00:00:00Z'),
+    });
+    playlistCache.clear();
+    rankingCache.clear();
+    setUpstreamFetch(fixtureFetch('fixtures'));
+  });
+  afterEach(() => {
+    setUpstreamFetch(null);
+    vi.useRealTimers();
+  });
+
+  it('scans every recorded page and drops deleted videos', async () => {
+    const { status, body } = await get('days=0');
+    expect(status).toBe(200);
+    expect(gameNos(body)).toEqual([121, 122, 120, 119, 118]);
+    expect(body.nextCursor).toBeNull();
+    expect(body.debug.upstreamPages).toBe(2);
+    expect(body.items[0]).toMatchObject({
+      awayTeam: '中信兄弟',
+      homeTeam: '統一7-ELEVEn獅',
+      gameDate: '2025-06-14',
+      details: { viewCount: 48213 },
+    });
+  });
+
+  it('stops at the days cutoff', async () => {
+    const { body } = await get('days=1');
+    expect(gameNos(body)).toEqual([121, 122]);
+    // 第二頁整頁都早於時間窗，掃到就停
+    expect(body.debug.upstreamPages).toBe(2);
+    expect(body.nextCursor).toBeNull();
+  });
+
+  it('keeps only titles containing every mustAll term', async () => {
+    expect(gameNos((await get('days=0&mustAll=味全')).body)).toEqual([
+      122, 118,
+    ]);
+    expect(
+      gameNos((await get('days=0&mustAll=味全&mustAll=中信')).body)
+    ).toEqual([118]);
+    expect((await get('days=0&mustAll=不存在')).body.items).toEqual([]);
+  });
+
+  it('accepts a team id, name or alias', async () => {
+    expect(gameNos((await get('days=0&team=dragons')).body)).toEqual([
+      122, 118,
+    ]);
+    expect(gameNos((await get('days=0&team=味全')).body)).toEqual([122, 118]);
+    expect(
+      gameNos((await get('days=0&team=味全龍&team=brothers')).body)
+    ).toEqual([118]);
+    expect((await get('days=0&team=巨人')).body).toEqual({
+      error: 'Invalid team: 巨人',
+    });
+  });
+
+  it('clamps limit and pages with the returned cursor', async () => {
+    const first = (await get('days=0&limit=2')).body;
+    expect(gameNos(first)).toEqual([121, 122]);
+    expect(first.nextCursor).toEqual(expect.any(String));
+
+    const next = (await get(`days=0&limit=2&cursor=${first.nextCursor}`)).body;
+    expect(gameNos(next)).toEqual([120, 119]);
+
+    expect((await get('days=0&limit=0')).body.items).toHaveLength(1);
+    expect((await get('days=0&limit=999')).body.debug.limit).toBe(50);
+  });
+
+  it('ranks the whole window by views before paging', async () => {
+    const first = (await get('days=0&sort=views&limit=2')).body;
+    expect(gameNos(first)).toEqual([119, 118]);
+    expect(first.debug.ranked).toBe(5);
+    expect(first.truncated).toBe(false);
+
+    // 之後的頁面從排好的名單切，不再打 YouTube
+    const upstream = vi.fn(fixtureFetch('fixtures'));
+    setUpstreamFetch(upstream);
+    const next = (
+      await get(`days=0&sort=views&limit=2&cursor=${first.nextCursor}`)
+    ).body;
+    expect(gameNos(next)).toEqual([121, 122]);
+
+    const last = (
+      await get(`days=0&sort=views&limit=2&cursor=${next.nextCursor}`)
+    ).body;
+    expect(gameNos(last)).toEqual([120]);
+    expect(last.nextCursor).toBeNull();
+    expect(upstream).not.toHaveBeenCalled();
+
+    expect((await get('sort=oldest')).body).toEqual({
+      error: 'Invalid sort: oldest',
+    });
+  });
+
+  it('reports when only the latest videos were ranked', async () => {
+    // 沒有金鑰時只用本地索引、不補觀看數，排名沿用索引順序
+    setUpstreamFetch(null);
+    const { playlistId } = await getSource();
+    const videos = Array.from({ length: MAX_RANKED_VIDEOS + 5 }, (_, i) =>
+      toVideo({
+        snippet: {
+          title: `【全場精華】06/14 樂天桃猿 vs 味全龍｜G${i + 1}`,
+          resourceId: { videoId: `ix${String(i).padStart(9, '0')}` },
+        },
+        contentDetails: { videoPublishedAt: '2025-06-14T14:00:00Z' },
+      })
+    );
+    await writeIndex({ playlistId, syncedAt: '', complete: true, videos });
+    try {
+      const { body } = await get('days=0&sort=views');
+      expect(body.truncated).toBe(true);
+      expect(body.debug.ranked).toBe(MAX_RANKED_VIDEOS);
+      expect(body.debug.source).toBe('local-index');
+    } finally {
+      await rm(indexPath());
+    }
+  });
+
+  it('rejects a non-integer limit', async () => {
+    expect((await get('days=0&limit=2.5')).status).toBe(400);
+    expect((await get('days=0&limit=abc')).body).toEqual({
+      error: 'Invalid limit: abc',
+    });
+  });
+
+  it('rejects a bad cursor or date', async () => {
+    expect((await get('cursor=zzz')).status).toBe(400);
+    expect((await get('from=2025-13-01')).status).toBe(400);
+  });
+
+  it('maps a YouTube error to 502', async () => {
+    setUpstreamFetch(
+      (async () => new Response('{}', { status: 500 })) as typeof fetch
+    );
+    const { status, body } = await get('days=0');
+    expect(status).toBe(502);
+    expect(body).toEqual({ error: 'YouTube HTTP 500' });
+  });
+
+  it('maps a missing API key to 500', async () => {
+    setUpstreamFetch(null);
+    const { status, body } = await get('days=0');
+    expect(status).toBe(500);
+    expect(body).toEqual({ error: 'Missing YOUTUBE_API_KEY' });
+  });
+});
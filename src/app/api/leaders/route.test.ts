@@ -0,0 +1,151 @@
+import { readFileSync } from 'fs';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { LeaderBoard, LeadersResponse } from '../../lib/leaders';
+import { parseBattingStats, rankLeaders } from '../../lib/playerStats';
+import type { StandingsErrorBody } from '../../lib/records';
+import { fixtureFetch, setUpstreamFetch } from '../../lib/upstream';
+import { GET } from './route';
+
+const get = (qs: string) =>
+  GET(new Request(`http://localhost/api/leaders?${qs}`));
+
+const leaders = async (qs: string) => {
+  const res = await get(qs);
+  expect(res.status).toBe(200);
+  return (await res.json()) as LeadersResponse;
+};
+
+// 每個排行榜列成「名次:球員」
+const board = (b: LeaderBoard) => b.leaders.map((l) => `${l.rank}:${l.player}`);
+
+describe('GET /api/leaders', () => {
+  beforeEach(() => setUpstreamFetch(fixtureFetch('fixtures')));
+  afterEach(() => setUpstreamFetch(null));
+
+  it('ranks the recorded stats pages', async () => {
+    const body = await leaders('year=2025&category=avg,wins');
+    expect(body.source).toEqual({
+      batting:
+        'https://www.cpbl.com.tw/stats/recordall?year=2025&kindCode=A&position=01',
+      pitching:
+        'https://www.cpbl.com.tw/stats/recordall?year=2025&kindCode=A&position=02',
+    });
+    const [avg, wins] = body.boards;
+    expect(avg).toMatchObject({ category: 'avg', group: 'batting' });
+    expect(avg.leaders[0]).toEqual({
+      rank: 1,
+      player: '陳傑憲',
+      playerUrl: 'https://www.cpbl.com.tw/team/person?acnt=0000000901',
+      team: '統一7-ELEVEn獅',
+      teamId: 'lions',
+      value: 0.35,
+    });
+    expect(board(wins)).toEqual([
+      '1:德保拉',
+      '2:古林睿煬',
+      '3:鋼龍',
+      '4:黃子鵬',
+      '5:羅戈',
+    ]);
+  });
+
+  it('gives tied values the same rank', async () => {
+    const [hr] = (await leaders('year=2025&category=hr')).boards;
+    expect(board(hr)).toEqual([
+      '1:林安可',
+      '1:吉力吉撈．鞏冠',
+      '1:魔鷹',
+      '4:許基宏',
+      '5:朱育賢',
+    ]);
+    // 名額切在同分之中時，留下來的仍同名次
+    const [top2] = (await leaders('year=2025&category=hr&limit=2')).boards;
+    expect(top2.leaders.map((l) => l.rank)).toEqual([1, 1]);
+  });
+
+  it('leaves out players below the qualifying PA or innings unless qualified=0', async () => {
+    const qualified = await leaders('year=2025&category=avg,era,saves');
+    const [avg, era, saves] = qualified.boards;
+    // 蘇智傑 120 打席、救援投手的局數都未達規定
+    expect(avg.qualifiedOnly).toBe(true);
+    expect(board(avg)[0]).toBe('1:陳傑憲');
+    expect(era.qualifiedOnly).toBe(true);
+    expect(board(era)).toEqual([
+      '1:古林睿煬',
+      '2:德保拉',
+      '3:鋼龍',
+      '4:黃子鵬',
+      '5:羅戈',
+    ]);
+    // 累計類不看規定，但 0 不列入
+    expect(saves.qualifiedOnly).toBe(false);
+    expect(board(saves)).toEqual(['1:林子崴', '2:曾峻岳', '3:李振昌']);
+
+    const all = await leaders('year=2025&category=avg,era&qualified=0');
+    expect(all.boards.every((b) => !b.qualifiedOnly)).toBe(true);
+    expect(board(all.boards[0])[0]).toBe('1:蘇智傑');
+    expect(board(all.boards[1]).slice(0, 3)).toEqual([
+      '1:曾峻岳',
+      '2:王躍霖',
+      '3:林子崴',
+    ]);
+  });
+
+  it('filters by team and only fetches the needed page', async () => {
+    const body = await leaders('year=2025&team=brothers&category=hits');
+    expect(Object.keys(body.source)).toEqual(['batting']);
+    expect(body.query).toMatchObject({
+      team: 'brothers',
+      categories: ['hits'],
+    });
+    expect(board(body.boards[0])).toEqual(['1:江坤宇', '2:王威晨', '3:許基宏']);
+    expect(body.boards[0].leaders.every((l) => l.teamId === 'brothers')).toBe(
+      true
+    );
+  });
+
+  it('maps an unrecorded season to 502', async () => {
+    const res = await get('year=2024&category=hr');
+    expect(res.status).toBe(502);
+    expect(((await res.json()) as StandingsErrorBody).code).toBe(
+      'SOURCE_UNAVAILABLE'
+    );
+  });
+
+  it('rejects invalid parameters', async () => {
+    for (const qs of [
+      'category=bogus',
+      'team=giants',
+      'qualified=2',
+      'limit=0',
+      'limit=51',
+      'year=1900',
+    ]) {
+      expect((await get(qs)).status).toBe(400);
+    }
+  });
+});
+
+describe('rankLeaders', () => {
+  const batting = parseBattingStats(
+    readFileSync(
+      'fixtures/cpbl/stats-recordall__kindCode=A_position=01_year=2025.html',
+      'utf8'
+    )
+  );
+
+  it('lists everyone when team games are unknown', () => {
+    const avg = rankLeaders('avg', batting, { limit: 1, teamGames: null });
+    expect(avg.qualifiedOnly).toBe(false);
+    expect(board(avg)).toEqual(['1:蘇智傑']);
+  });
+
+  it('treats players of unknown teams as unqualified', () => {
+    const unknown = batting.map((r) => ({ ...r, teamId: null }));
+    const avg = rankLeaders('avg', unknown, {
+      limit: 5,
+      teamGames: new Map([['lions', 64]]),
+    });
+    expect(avg).toMatchObject({ qualifiedOnly: true, leaders: [] });
+  });
+});
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { ScrapeError } from '../../lib/cpbl';
+import { parseLeadersQuery, type LeadersResponse } from '../../lib/leaders';
+import { loadLeaders } from '../../lib/playerStats';
+import type { StandingsErrorBody } from '../../lib/records';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: Request) {
+  // 條件：year / kindCode / category（可多個）/ team / qualified（0 含未達規定）/ limit
+  const query = parseLeadersQuery(new URL(req.url).searchParams);
+  if (typeof query === 'string') {
+    return NextResponse.json({ error: query }, { status: 400 });
+  }
+
+  let loaded;
+  try {
+    loaded = await loadLeaders(query);
+  } catch (e) {
+    if (!(e instanceof ScrapeError)) throw e;
+    const err: StandingsErrorBody = {
+      error: e.message,
+      code: e.code,
+      details: e.details,
+    };
+    return NextResponse.json(err, { status: e.status });
+  }
+
+  const body: LeadersResponse = {
+    source: loaded.source,
+    query,
+    updatedAt: new Date().toISOString(),
+    boards: loaded.boards,
+  };
+
+  return new NextResponse(JSON.stringify(body), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'private, no-store',
+      // 個人成績一天只在比賽結束後變動，快取可以放久一點
+      'CDN-Cache-Control': 'public, s-maxage=600, stale-while-revalidate=300',
+    },
+  });
+}
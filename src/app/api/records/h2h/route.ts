@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import {
+  parseStandingsQuery,
+  type HeadToHeadResponse,
+  type StandingsErrorBody,
+} from '../../../lib/records';
+import { ScrapeError } from '../../../lib/cpbl';
+import { loadStandings, standingsUrl } from '../../../lib/standings';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/records/h2h：球隊對戰 N×N 勝-和-敗矩陣
+export async function GET(req: Request) {
+  // 賽季條件：year / kindCode / half（0 全年、1 上半季、2 下半季）
+  const query = parseStandingsQuery(new URL(req.url).searchParams);
+  if (typeof query === 'string') {
+    return NextResponse.json({ error: query }, { status: 400 });
+  }
+
+  let loaded;
+  try {
+    // 戰績快照沒有對戰矩陣，只接受記憶體中的 last-known-good
+    loaded = await loadStandings(query, { allowSnapshot: false });
+  } catch (e) {
+    if (!(e instanceof ScrapeError)) throw e;
+    const err: StandingsErrorBody = {
+      error: e.message,
+      code: e.code,
+      details: e.details,
+    };
+    return NextResponse.json(err, { status: e.status });
+  }
+  const { parsed, fetchedAt, warning } = loaded;
+
+  const body: HeadToHeadResponse = {
+    source: standingsUrl(query),
+    query,
+    updatedAt: fetchedAt,
+    teams: parsed.h2h.teams,
+    teamIds: parsed.h2h.teamIds,
+    matrix: parsed.h2h.matrix,
+    warning,
+  };
+
+  return new NextResponse(JSON.stringify(body), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'private, no-store',
+      'CDN-Cache-Control': warning
+        ? 'public, s-maxage=30'
+        : 'public, s-maxage=300, stale-while-revalidate=120',
+    },
+  });
+}
@@ -0,0 +1,76 @@
+import { rm, writeFile } from 'fs/promises';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { HistoryResponse, StandingRow } from '../../../lib/records';
+import { historyPath, recordSnapshot } from '../../../lib/standingsHistory';
+import { GET } from './route';
+
+const get = (qs: string) =>
+  GET(new Request(`http://localhost/api/records/history?${qs}`));
+
+const row = (
+  team: string,
+  teamId: StandingRow['teamId'],
+  rank: number,
+  gb: string
+): StandingRow => ({
+  rank,
+  team,
+  teamId,
+  games: 10,
+  wins: 6 - rank,
+  draws: 0,
+  losses: 4 + rank,
+  winRate: (6 - rank) / 10,
+  gb,
+  elim: '',
+  streak: '',
+  last10: '',
+});
+
+describe('GET /api/records/history', () => {
+  afterEach(() => rm(historyPath(), { force: true }));
+
+  it('returns the trend of every team, or of one team', async () => {
+    const season = { year: 2025, kindCode: 'A', half: 0 } as const;
+    await recordSnapshot(
+      season,
+      [row('中信兄弟', 'brothers', 1, '-'), row('味全龍', 'dragons', 2, '1')],
+      { date: '2025-06-13' }
+    );
+    await recordSnapshot(
+      season,
+      [row('味全龍', 'dragons', 1, '-'), row('中信兄弟', 'brothers', 2, '0.5')],
+      { date: '2025-06-14' }
+    );
+
+    const body = (await (
+      await get('year=2025&team=brothers')
+    ).json()) as HistoryResponse;
+    expect(body.trends).toEqual([
+      {
+        team: '中信兄弟',
+        teamId: 'brothers',
+        points: [
+          { date: '2025-06-13', rank: 1, winRate: 0.5, gb: 0 },
+          { date: '2025-06-14', rank: 2, winRate: 0.4, gb: 0.5 },
+        ],
+      },
+    ]);
+    expect(
+      ((await (await get('year=2025')).json()) as HistoryResponse).trends
+    ).toHaveLength(2);
+  });
+
+  it('answers 500 when the history file is corrupt', async () => {
+    await writeFile(historyPath(), '{"2025-A-0": {');
+    const res = await get('year=2025');
+    expect(res.status).toBe(500);
+    expect(((await res.json()) as { error: string }).error).toMatch(
+      /^Failed to read standings history/
+    );
+  });
+
+  it('rejects invalid parameters', async () => {
+    expect((await get('half=3')).status).toBe(400);
+  });
+});
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import {
+  parseStandingsQuery,
+  type HistoryResponse,
+} from '../../../lib/records';
+import { readTrends } from '../../../lib/standingsHistory';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/records/history：各隊排名/勝率/勝差走勢（來自每日戰績快照）；?team= 只回傳單隊
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const query = parseStandingsQuery(url.searchParams);
+  if (typeof query === 'string') {
+    return NextResponse.json({ error: query }, { status: 400 });
+  }
+
+  let trends;
+  try {
+    trends = await readTrends(query);
+  } catch (e) {
+    // 歷史檔讀不到或內容壞掉（不是 JSON）
+    return NextResponse.json(
+      { error: `Failed to read standings history: ${(e as Error).message}` },
+      { status: 500 }
+    );
+  }
+
+  const team = url.searchParams.get('team');
+  trends = trends.filter((t) => !team || t.teamId === team || t.team === team);
+
+  const body: HistoryResponse = { query, trends };
+
+  return new NextResponse(JSON.stringify(body), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'private, no-store',
+      'CDN-Cache-Control': 'public, s-maxage=300, stale-while-revalidate=120',
+    },
+  });
+}
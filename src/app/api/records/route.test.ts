@@ -0,0 +1,135 @@
+import { readFileSync } from 'fs';
+import * as cheerio from 'cheerio';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { RecordsResponse, StandingsErrorBody } from '../../lib/records';
+import { fixtureFetch, setUpstreamFetch } from '../../lib/upstream';
+import { GET } from './route';
+
+const recorded = readFileSync(
+  'fixtures/cpbl/standings-season__kindCode=A_season=0_year=2025.html',
+  'utf8'
+);
+
+// 不論網址都回傳同一份 HTML（拿錄製檔改版面用）
+const htmlFetch = (html: string, status = 200) =>
+  (async () => new Response(html, { status })) as typeof fetch;
+
+// 錄製檔裡的戰績表
+const standingsTable = ($: cheerio.CheerioAPI) =>
+  $('.RecordTableWrap')
+    .filter((_, el) => $(el).text().includes('球隊對戰戰績'))
+    .find('table')
+    .first();
+
+// 把「勝率」欄搬到最後一欄：欄位應依表頭找，不依位置
+function moveWinRateLast(html: string) {
+  const $ = cheerio.load(html);
+  const table = standingsTable($);
+  const i = table
+    .find('tr')
+    .first()
+    .children()
+    .toArray()
+    .findIndex((th) => $(th).text().trim() === '勝率');
+  table.find('tr').each((_, tr) => {
+    const cell = $(tr).children().eq(i);
+    $(tr).append(cell.remove());
+  });
+  return $.html();
+}
+
+// 只留表頭列
+function dropRows(html: string) {
+  const $ = cheerio.load(html);
+  standingsTable($).find('tr').slice(1).remove();
+  return $.html();
+}
+
+const get = (qs: string) =>
+  GET(new Request(`http://localhost/api/records?${qs}`));
+
+describe('GET /api/records', () => {
+  beforeEach(() => setUpstreamFetch(fixtureFetch('fixtures')));
+  afterEach(() => setUpstreamFetch(null));
+
+  it('parses the recorded standings page', async () => {
+    const res = await get('year=2025');
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as RecordsResponse;
+    expect(body.warning).toBeUndefined();
+    expect(body.rows).toHaveLength(6);
+    expect(body.rows[0]).toMatchObject({
+      rank: 1,
+      team: '中信兄弟',
+      teamId: 'brothers',
+      games: 64,
+      wins: 38,
+      draws: 1,
+      losses: 25,
+      winRate: 0.603,
+      gb: '-',
+      streak: '2連勝',
+      last10: '6-0-4',
+    });
+    expect(body.rows.map((r) => r.teamId)).toEqual([
+      'brothers',
+      'lions',
+      'monkeys',
+      'guardians',
+      'dragons',
+      'hawks',
+    ]);
+    expect(body.analytics.teams).toHaveLength(6);
+  });
+
+  it('finds columns by header text when the order changes', async () => {
+    const base = (await (await get('year=2025')).json()) as RecordsResponse;
+    setUpstreamFetch(htmlFetch(moveWinRateLast(recorded)));
+    const res = await get('year=2025');
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as RecordsResponse;
+    expect(body.rows).toEqual(base.rows);
+  });
+
+  it('reports an empty table as EMPTY_TABLE', async () => {
+    setUpstreamFetch(htmlFetch(dropRows(recorded)));
+    const res = await get('year=2024');
+    expect(res.status).toBe(500);
+    const body = (await res.json()) as StandingsErrorBody;
+    expect(body.code).toBe('EMPTY_TABLE');
+  });
+
+  it('reports missing headers as LAYOUT_CHANGED', async () => {
+    setUpstreamFetch(htmlFetch(recorded.replace(/勝率/g, '勝百分比')));
+    const res = await get('year=2024');
+    expect(res.status).toBe(500);
+    const body = (await res.json()) as StandingsErrorBody;
+    expect(body.code).toBe('LAYOUT_CHANGED');
+    expect(body.details).toMatchObject({ missing: ['勝率'] });
+  });
+
+  it('maps an unreachable source to 502', async () => {
+    // 沒有錄製 2023 年的戰績頁，錄製檔回 404
+    const res = await get('year=2023');
+    expect(res.status).toBe(502);
+    const body = (await res.json()) as StandingsErrorBody;
+    expect(body.code).toBe('SOURCE_UNAVAILABLE');
+  });
+
+  it('serves the last good standings with a warning when the source fails', async () => {
+    await get('year=2025');
+    setUpstreamFetch(htmlFetch('Bad Gateway', 502));
+    const res = await get('year=2025');
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as RecordsResponse;
+    expect(body.rows).toHaveLength(6);
+    expect(body.warning?.code).toBe('SOURCE_UNAVAILABLE');
+    expect(res.headers.get('CDN-Cache-Control')).toBe('public, s-maxage=30');
+  });
+
+  it('rejects invalid parameters', async () => {
+    expect((await get('year=1900')).status).toBe(400);
+    expect((await get('half=3')).status).toBe(400);
+    expect((await get('seed=-1')).status).toBe(400);
+  });
+});
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ScheduleResponse } from '../../lib/games';
+import { scheduleCache } from '../../lib/schedule';
+import { fixtureFetch, setUpstreamFetch } from '../../lib/upstream';
+import { playlistCache } from '../../lib/youtube';
+import { GET } from './route';
+
+const get = (qs: string) =>
+  GET(new Request(`http://localhost/api/schedule?${qs}`));
+
+describe('GET /api/schedule', () => {
+  beforeEach(() => {
+    scheduleCache.clear();
+    playlistCache.clear();
+    setUpstreamFetch(fixtureFetch('fixtures'));
+  });
+  afterEach(() => setUpstreamFetch(null));
+
+  it('links finished games to their highlights without touching the cache', async () => {
+    const res = await get('date=2025-06-14');
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as ScheduleResponse;
+    expect(body.games.map((g) => g.highlightId)).toEqual([
+      'fx000000001',
+      'fx000000002',
+      null,
+    ]);
+    expect(
+      scheduleCache.peek('2025-06-14')!.every((g) => g.highlightId === null)
+    ).toBe(true);
+  });
+
+  it('uses a short CDN cache while a game is live', async () => {
+    const res = await get('date=2025-06-15');
+    expect(res.headers.get('CDN-Cache-Control')).toBe('public, s-maxage=30');
+  });
+
+  it('maps a missing page to 502 and a bad date to 400', async () => {
+    expect((await get('date=2025-06-16')).status).toBe(502);
+    expect((await get('date=2025/06/16')).status).toBe(400);
+  });
+});
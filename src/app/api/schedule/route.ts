@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { ScrapeError } from '../../lib/cpbl';
+import { isDateString, taipeiDate } from '../../lib/dates';
+import type { ScheduleResponse } from '../../lib/games';
+import { findGameHighlight } from '../../lib/highlights';
+import { highlightCandidates } from '../../lib/highlightIndex';
+import type { StandingsErrorBody } from '../../lib/records';
+import { loadSchedule, scheduleUrl } from '../../lib/schedule';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: Request) {
+  // date=YYYY-MM-DD，預設為台灣時間今天
+  const date = new URL(req.url).searchParams.get('date') || taipeiDate();
+  if (!isDateString(date)) {
+    return NextResponse.json(
+      { error: 'date must be YYYY-MM-DD' },
+      { status: 400 }
+    );
+  }
+
+  let games;
+  try {
+    games = await loadSchedule(date);
+  } catch (e) {
+    if (!(e instanceof ScrapeError)) throw e;
+    const err: StandingsErrorBody = {
+      error: e.message,
+      code: e.code,
+      details: e.details,
+    };
+    return NextResponse.json(err, { status: e.status });
+  }
+
+  // 已結束的比賽對應到全場精華影片；賽程物件是快取共用的，複製後再填，不改到快取內容
+  if (games.some((g) => g.status === 'final')) {
+    const videos = await highlightCandidates();
+    games = games.map((g) =>
+      g.status === 'final'
+        ? { ...g, highlightId: findGameHighlight(videos, g)?.id ?? null }
+        : g
+    );
+  }
+
+  const body: ScheduleResponse = {
+    source: scheduleUrl(date),
+    date,
+    updatedAt: new Date().toISOString(),
+    games,
+  };
+
+  return new NextResponse(JSON.stringify(body), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'private, no-store',
+      // 比賽進行中比數變動快，快取時間縮短
+      'CDN-Cache-Control': games.some((g) => g.status === 'live')
+        ? 'public, s-maxage=30'
+        : 'public, s-maxage=300, stale-while-revalidate=120',
+    },
+  });
+}
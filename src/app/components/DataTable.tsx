@@ -0,0 +1,45 @@
+// 共用表格：第一欄靠左，其餘置中；空值顯示 '-'，格子也可以放連結等元素
+export default function DataTable({
+  headers,
+  rows,
+}: {
+  headers: string[];
+  rows: React.ReactNode[][];
+}) {
+  return (
+    <div className="overflow-x-auto rounded-xl border border-gray-200 bg-white shadow-sm">
+      <table className="min-w-full text-sm text-black">
+        <thead className="bg-gray-50 text-gray-700">
+          <tr>
+            {headers.map((h, i) => (
+              <th
+                key={i}
+                className={`px-3 py-2 font-medium whitespace-nowrap ${
+                  i === 0 ? 'text-left' : 'text-center'
+                }`}
+              >
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.map((r, i) => (
+            <tr key={i} className="hover:bg-gray-50">
+              {r.map((c, j) => (
+                <td
+                  key={j}
+                  className={`px-3 py-2 whitespace-nowrap ${
+                    j === 0 ? 'text-left' : 'text-center font-mono'
+                  }`}
+                >
+                  {c === null || c === undefined || c === '' ? '-' : c}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
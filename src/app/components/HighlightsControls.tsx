@@ -1,66 +1,315 @@
 'use client';
 
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
 import HighlightsList from './HighlightsList';
+import { useLocale } from './LocaleProvider';
+import {
+  CONTENT_TYPES,
+  DEFAULT_CONTENT_TYPE,
+  type ContentTypeId,
+} from '../lib/contentTypes';
+import {
+  homeHighlightsRequest,
+  type HighlightSort,
+  type InitialHighlights,
+} from '../lib/highlights';
+import { DEFAULT_LOCALE, teamName } from '../lib/i18n';
+import { TEAMS, getTeam, teamPath, type TeamId } from '../lib/teams';
+import {
+  replaceSearchParams,
+  writeHighlightsView,
+  type HighlightsView,
+} from '../lib/viewState';
 
-const TEAMS = ['樂天', '中信', '富邦', '統一', '味全', '台鋼'] as const;
+// 某月的起訖日（YYYY-MM → [YYYY-MM-01, YYYY-MM-最後一天]）
+function monthRange(ym: string): [string, string] {
+  const [y, m] = ym.split('-').map(Number);
+  const last = new Date(Date.UTC(y, m, 0)).getUTCDate();
+  return [`${ym}-01`, `${ym}-${String(last).padStart(2, '0')}`];
+}
+
+// 月份選單：今年（到本月為止）與去年的球季月份（3～11 月），新到舊
+function seasonMonths(now = new Date()) {
+  const months: string[] = [];
+  for (const y of [now.getFullYear(), now.getFullYear() - 1]) {
+    for (let m = 11; m >= 3; m--) {
+      if (y === now.getFullYear() && m > now.getMonth() + 1) continue;
+      months.push(`${y}-${String(m).padStart(2, '0')}`);
+    }
+  }
+  return months;
+}
+
+export default function HighlightsControls({
+  initialView,
+  types = [DEFAULT_CONTENT_TYPE],
+  initialHighlights,
+}: {
+  initialView?: HighlightsView; // 伺服端從網址 type/team/from/to 解析出的條件
+  types?: ContentTypeId[]; // 伺服端有設定來源的影片類型
+  initialHighlights?: InitialHighlights; // 伺服端依 initialView 先抓好的第一頁
+}) {
+  // 影片類型分頁；網址指定了沒設定來源的類型時退回第一個
+  const [type, setType] = useState<ContentTypeId>(
+    initialView && types.includes(initialView.type)
+      ? initialView.type
+      : types[0]
+  );
+  const tabs = CONTENT_TYPES.filter((c) => types.includes(c.id));
+  const { locale, t } = useLocale();
+
+  // 最多選兩隊：一隊＝該隊所有比賽，兩隊＝對戰組合（A vs B）
+  const [teams, setTeams] = useState<TeamId[]>(initialView?.teams ?? []);
+
+  // 日期區間（YYYY-MM-DD，依比賽日期）；都沒指定時看最近 30 天
+  const [from, setFrom] = useState(initialView?.from ?? '');
+  const [to, setTo] = useState(initialView?.to ?? '');
+
+  const months = useMemo(() => seasonMonths(), []);
+  // 區間剛好是整個月時，月份選單顯示該月；否則顯示「自訂」
+  const month =
+    !from && !to
+      ? ''
+      : months.find((m) => {
+          const [f, t] = monthRange(m);
+          return f === from && t === to;
+        }) ?? 'custom';
+  const pickMonth = (m: string) => {
+    const [f, t] = m ? monthRange(m) : ['', ''];
+    setFrom(f);
+    setTo(t);
+  };
+
+  // 排序：最新（依日期分組）或最多觀看
+  const [sort, setSort] = useState<HighlightSort>(
+    initialView?.sort ?? 'latest'
+  );
 
-export default function HighlightsControls() {
-  // 單選球隊
-  const [team, setTeam] = useState<(typeof TEAMS)[number] | null>(null);
+  // 篩選條件同步到網址，方便分享/重新整理
+  useEffect(() => {
+    replaceSearchParams((p) =>
+      writeHighlightsView(p, {
+        type,
+        teams,
+        from: from || null,
+        to: to || null,
+        sort,
+      })
+    );
+  }, [type, teams, from, to, sort]);
 
-  // 後端 keywords：固定只查「全場精華」（不做任何別名/OR 擴散）
-  const keywords = '全場精華';
+  // 隱藏已看完的影片（觀看紀錄存在 localStorage）
+  const [hideWatched, setHideWatched] = useState(false);
 
-  // 前端 AND 收斂：標題同時包含「全場精華」以及（若有）所選隊名
-  const titleMustAll = useMemo(() => {
-    const must = ['全場精華'];
-    if (team) must.push(team); // 不用別名，直接用 UI 上點選的隊名字串
-    return must;
-  }, [team]);
+  // 點選已選的隊伍取消；已選兩隊時再點新的，換掉較早選的那隊
+  const toggle = (id: TeamId) =>
+    setTeams((cur) =>
+      cur.includes(id) ? cur.filter((t) => t !== id) : [...cur, id].slice(-2)
+    );
+
+  const [a, b] = teams.map((id) => getTeam(id)!);
+  const feedQuery = new URLSearchParams([
+    ...(type === DEFAULT_CONTENT_TYPE ? [] : [['type', type]]),
+    ...teams.map((id) => ['team', id]),
+    ...(locale === DEFAULT_LOCALE ? [] : [['lang', locale]]),
+  ]).toString();
 
   return (
     <section>
+      {/* 影片類型分頁 */}
+      <div
+        role="tablist"
+        aria-label={t('controls.types')}
+        className="mb-4 flex gap-1 overflow-x-auto border-b border-gray-200"
+      >
+        {tabs.map((tab) => (
+          <button
+            key={tab.id}
+            type="button"
+            role="tab"
+            aria-selected={tab.id === type}
+            onClick={() => setType(tab.id)}
+            className={[
+              '-mb-px shrink-0 border-b-2 px-3 py-2 text-sm transition',
+              tab.id === type
+                ? 'border-blue-600 font-medium text-blue-700'
+                : 'border-transparent text-gray-600 hover:text-gray-900',
+            ].join(' ')}
+          >
+            {t(`type.${tab.id}`)}
+          </button>
+        ))}
+      </div>
+
       <div className="mb-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
-        {/* 球隊快速篩選（單選） */}
+        {/* 球隊快速篩選（最多兩隊） */}
         <div className="flex flex-wrap gap-2">
-          {TEAMS.map((t) => {
-            const active = team === t;
+          {TEAMS.map((team) => {
+            const active = teams.includes(team.id);
             return (
               <button
-                key={t}
+                key={team.id}
                 type="button"
-                onClick={() => setTeam(active ? null : t)}
+                onClick={() => toggle(team.id)}
                 className={[
-                  'rounded-full border px-3 py-1 text-sm transition',
+                  'flex items-center gap-1.5 rounded-full border px-3 py-1 text-sm transition',
                   active
                     ? 'border-blue-600 bg-blue-50 text-blue-700'
                     : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50',
                 ].join(' ')}
+                style={active ? { borderColor: team.color } : undefined}
                 aria-pressed={active}
-                aria-label={`篩選 ${t}`}
+                aria-label={t('controls.filterTeam', {
+                  team: teamName(team, locale),
+                })}
               >
-                {t}
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={team.logo} alt="" width={16} height={16} />
+                {teamName(team, locale, true)}
               </button>
             );
           })}
           <button
             type="button"
-            onClick={() => setTeam(null)}
+            onClick={() => setTeams([])}
             className="rounded-full border border-gray-300 px-3 py-1 text-sm text-gray-600 hover:bg-gray-50"
-            aria-label="清除篩選"
+            aria-label={t('controls.clearTeams')}
           >
-            全部
+            {t('controls.allTeams')}
           </button>
         </div>
+
+        <div className="flex flex-col gap-1 sm:items-end">
+          <div className="flex flex-wrap items-center gap-1.5 text-sm text-gray-700">
+            <select
+              value={month}
+              onChange={(e) => pickMonth(e.target.value)}
+              className="rounded border border-gray-300 bg-white px-2 py-0.5"
+              aria-label={t('controls.month')}
+            >
+              <option value="">{t('controls.recent30')}</option>
+              {month === 'custom' && (
+                <option value="custom">{t('controls.customRange')}</option>
+              )}
+              {months.map((m) => (
+                <option key={m} value={m}>
+                  {t('controls.monthOption', {
+                    year: m.slice(0, 4),
+                    month: Number(m.slice(5)),
+                    monthName: new Date(`${m}-01T00:00:00Z`).toLocaleString(
+                      locale,
+                      { month: 'long', timeZone: 'UTC' }
+                    ),
+                  })}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+              className="rounded border border-gray-300 px-2 py-0.5"
+              aria-label={t('controls.from')}
+            />
+            ～
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              className="rounded border border-gray-300 px-2 py-0.5"
+              aria-label={t('controls.to')}
+            />
+          </div>
+          <div className="flex items-center gap-3 text-sm text-gray-700">
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as HighlightSort)}
+              className="rounded border border-gray-300 bg-white px-2 py-0.5"
+              aria-label={t('controls.sort')}
+            >
+              <option value="latest">{t('controls.sortLatest')}</option>
+              <option value="views">{t('controls.sortViews')}</option>
+            </select>
+            <label className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={hideWatched}
+                onChange={(e) => setHideWatched(e.target.checked)}
+              />
+              {t('controls.hideWatched')}
+            </label>
+          </div>
+          {/* 訂閱目前所選球隊的新精華 */}
+          <p className="text-xs text-gray-500">
+            {t('controls.subscribe')}
+            <a
+              href={`/api/highlights/feed.xml?${feedQuery}`}
+              className="hover:underline"
+            >
+              RSS
+            </a>
+            {' · '}
+            <a
+              href={`/api/highlights/calendar.ics?${feedQuery}`}
+              className="hover:underline"
+            >
+              {t('controls.calendar')}
+            </a>
+          </p>
+          {a && (
+            <p className="text-sm text-gray-600">
+              {b ? (
+                <>
+                  {t('controls.matchup')}
+                  <Link
+                    href={teamPath(a.id)}
+                    style={{ color: a.color }}
+                    className="hover:underline"
+                  >
+                    {teamName(a, locale)}
+                  </Link>{' '}
+                  vs{' '}
+                  <Link
+                    href={teamPath(b.id)}
+                    style={{ color: b.color }}
+                    className="hover:underline"
+                  >
+                    {teamName(b, locale)}
+                  </Link>
+                </>
+              ) : (
+                <>
+                  {t('controls.team')}
+                  <Link
+                    href={teamPath(a.id)}
+                    style={{ color: a.color }}
+                    className="hover:underline"
+                  >
+                    {teamName(a, locale)}
+                  </Link>
+                  {t('controls.pickAnother')}
+                </>
+              )}
+            </p>
+          )}
+        </div>
       </div>
 
       {/* 把條件給原本的列表元件 */}
       <HighlightsList
-        keywords={keywords} // 僅「全場精華」
-        recentDays={30}
-        pageSize={24}
-        titleMustAll={titleMustAll} // AND：全場精華 +（可選）隊名
+        // 影片類型（標題條件由後端的來源設定決定）；球隊為 AND（別名比對）
+        {...homeHighlightsRequest({
+          type,
+          teams,
+          from: from || null,
+          to: to || null,
+          sort,
+        })}
+        hideWatched={hideWatched}
+        initial={initialHighlights}
       />
     </section>
   );
@@ -1,127 +1,236 @@
 'use client';
 
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
 import Image from 'next/image';
-
-type Video = {
-  id: string;
-  title: string;
-  channelTitle: string;
-  publishedAt: string;
-  thumbnail: string;
-};
-
-type ApiResp = {
-  items: Video[];
-  count: number;
-  nextPageToken: string | null;
-};
+import Link from 'next/link';
+import { useLocale } from './LocaleProvider';
+import PlayerModal from './PlayerModal';
+import { DEFAULT_CONTENT_TYPE, type ContentTypeId } from '../lib/contentTypes';
+import { gamePath } from '../lib/games';
+import {
+  MAX_RANKED_VIDEOS,
+  formatDuration,
+  highlightsSearchParams,
+  videoDate,
+  videoMatchesTeams,
+  type HighlightSort,
+  type HighlightsRequest,
+  type HighlightsResponse,
+  type InitialHighlights,
+  type Video,
+} from '../lib/highlights';
+import {
+  formatDateTime,
+  formatNumber,
+  localTeamName,
+  type Locale,
+  type Translate,
+} from '../lib/i18n';
+import type { TeamId } from '../lib/teams';
+import { getServerWatched, getWatched, subscribeWatched } from '../lib/watched';
 
 // AND 過濾用的型別
 type MustAll = string[];
 
-function getBaseUrl() {
-  if (typeof window !== 'undefined') return '';
-  if (process.env.NEXT_PUBLIC_SITE_URL) return process.env.NEXT_PUBLIC_SITE_URL;
-  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
-  return 'http://localhost:3000';
+// 記分板：客隊在左、主隊在右，比數未知時顯示 vs
+function Scoreboard({ v }: { v: Video }) {
+  const { locale } = useLocale();
+  const awayWin = v.score ? v.score.away > v.score.home : false;
+  const homeWin = v.score ? v.score.home > v.score.away : false;
+  return (
+    <div className="mt-1 flex items-center justify-between rounded-lg bg-gray-50 px-2 py-1 text-sm">
+      <span
+        className={awayWin ? 'font-semibold text-gray-900' : 'text-gray-700'}
+      >
+        {localTeamName(v.awayTeam, locale)}
+      </span>
+      <span className="font-mono text-gray-900">
+        {v.score ? `${v.score.away} : ${v.score.home}` : 'vs'}
+      </span>
+      <span
+        className={homeWin ? 'font-semibold text-gray-900' : 'text-gray-700'}
+      >
+        {localTeamName(v.homeTeam, locale)}
+      </span>
+    </div>
+  );
+}
+
+// 縮圖右下角：直播狀態或影片長度
+function DetailsBadge({ v }: { v: Video }) {
+  const { t } = useLocale();
+  const d = v.details;
+  if (d?.live === 'live' || d?.live === 'upcoming') {
+    return (
+      <span className="absolute right-2 bottom-2 rounded bg-red-600 px-1.5 py-0.5 text-xs font-medium text-white">
+        {t(d.live === 'live' ? 'highlights.live' : 'highlights.upcoming')}
+      </span>
+    );
+  }
+  if (!d?.durationSec) return null;
+  return (
+    <span className="absolute right-2 bottom-2 rounded bg-black/80 px-1.5 py-0.5 font-mono text-xs text-white">
+      {formatDuration(d.durationSec)}
+    </span>
+  );
+}
+
+// 一般點擊改在站內播放器開啟；按著修飾鍵或中鍵時照常開 YouTube 新分頁
+const isPlainClick = (e: React.MouseEvent) =>
+  e.button === 0 && !e.metaKey && !e.ctrlKey && !e.shiftKey && !e.altKey;
+
+// 日期分組標題，例如「6月14日 週六」、「Sat, June 14」
+function dateLabel(date: string, locale: Locale, t: Translate) {
+  if (!date) return t('common.unknownDate');
+  return new Date(`${date}T00:00:00+08:00`).toLocaleDateString(locale, {
+    timeZone: 'Asia/Taipei',
+    month: 'long',
+    day: 'numeric',
+    weekday: 'short',
+  });
 }
 
 export default function HighlightsList({
-  keywords = '全場精華',
+  type = DEFAULT_CONTENT_TYPE,
+  keywords = '',
   recentDays = 30,
   pageSize = 24,
   titleMustAll = [],
+  teams = [],
+  hideWatched = false,
+  sort = 'latest',
+  from = null,
+  to = null,
+  initial,
 }: {
-  keywords?: string;
+  type?: ContentTypeId;
+  keywords?: string; // 額外的標題關鍵字（空白分隔）
   recentDays?: number;
   pageSize?: number;
   titleMustAll?: MustAll;
+  teams?: TeamId[];
+  hideWatched?: boolean;
+  sort?: HighlightSort;
+  from?: string | null; // YYYY-MM-DD，有 from/to 時取代 recentDays
+  to?: string | null; // YYYY-MM-DD
+  initial?: InitialHighlights; // 伺服端先抓好的第一頁
 }) {
-  const [pages, setPages] = useState<Video[][]>([]);
-  const [nextPageToken, setNextPageToken] = useState<string | null>(null);
+  // 前端過濾用；用字串當依賴，避免陣列參考每次都不同
+  const teamsKey = teams.join(',');
+
+  const request: HighlightsRequest = {
+    type,
+    keywords,
+    recentDays,
+    pageSize,
+    titleMustAll,
+    teams,
+    from,
+    to,
+    sort,
+  };
+  // 目前條件的查詢字串（不含 cursor）；條件變動時要重新載入，用字串當依賴
+  const query = highlightsSearchParams(request).toString();
+
+  // 伺服端的第一頁與目前條件相同時直接當初始內容，往下捲再從它的游標接著載入
+  const [preloaded] = useState(() =>
+    initial && initial.query === query ? initial : null
+  );
+
+  const [pages, setPages] = useState<Video[][]>(
+    preloaded ? [preloaded.page.items] : []
+  );
+  const [nextCursor, setNextCursor] = useState<string | null>(
+    preloaded?.page.nextCursor ?? null
+  );
   const [loading, setLoading] = useState(false);
-  const [hitEnd, setHitEnd] = useState(false);
+  const [hitEnd, setHitEnd] = useState(
+    Boolean(preloaded && !preloaded.page.nextCursor)
+  );
   const [error, setError] = useState<string | null>(null);
-  const idsRef = useRef<Set<string>>(new Set());
+  // 依觀看數排序時，後端只排了時間窗內最新的一部分影片
+  const [truncated, setTruncated] = useState(
+    Boolean(preloaded?.page.truncated)
+  );
+  const idsRef = useRef<Set<string>>(
+    new Set(preloaded?.page.items.map((v) => v.id))
+  );
 
   // 是否至少發出過一次請求（用來控制空狀態不要閃）
-  const [hasRequested, setHasRequested] = useState(false);
-
-  // 用 localDays 來動態擴張時間窗（起始用 props.recentDays）
-  const [localDays, setLocalDays] = useState<number>(recentDays);
+  const [hasRequested, setHasRequested] = useState(Boolean(preloaded));
 
-  // 用 ref 保存最新的 days，避免擴窗後 load() 還讀到舊值
-  const localDaysRef = useRef(localDays);
-  useEffect(() => {
-    localDaysRef.current = localDays;
-  }, [localDays]);
+  // 目前列表內容對應的查詢條件；條件沒變（例如沿用伺服端第一頁）時不重新載入
+  const loadedQueryRef = useRef(preloaded?.query ?? null);
 
-  // 用 Set 去重（YouTube 有時分頁會重疊）
-  const seenIds = useMemo(
-    () => new Set(pages.flat().map((v) => v.id)),
-    [pages]
-  );
+  // 每次條件變動就換一代；回應回來時已不是同一代就丟掉，避免舊條件的結果混進來
+  const generationRef = useRef(0);
 
-  const baseUrl = getBaseUrl();
+  const { locale, t } = useLocale();
 
-  // 依目前條件載入（會帶上 localDays）
+  // 依目前條件載入；fresh 表示條件剛變動，要從頭開始
   const load = useCallback(
-    async (cursor?: string | null) => {
-      if (loading || (hitEnd && !cursor)) return;
+    async (cursor: string | null, fresh = false) => {
+      if (!fresh && (loading || (hitEnd && !cursor))) return;
+      const generation = fresh
+        ? ++generationRef.current
+        : generationRef.current;
       setLoading(true);
       setError(null);
       setHasRequested(true);
 
-      const qs = new URLSearchParams();
-      qs.set('limit', String(pageSize));
-      qs.set('q', keywords);
-      qs.set('days', String(localDaysRef.current)); // 用動態時間窗, 用 ref 讀最新 days
-      if (cursor) qs.set('pageToken', cursor);
-      // ts 用於躲過中繼層快取
-      // qs.set('ts', String(Date.now()));
-      // 把 AND 條件交給後端
-      titleMustAll.forEach((t) => qs.append('mustAll', t));
+      const qs = new URLSearchParams(query);
+      if (cursor) qs.set('cursor', cursor);
 
       try {
-        const res = await fetch(`${baseUrl}/api/highlights?${qs.toString()}`, {
+        const res = await fetch(`/api/highlights?${qs.toString()}`, {
           cache: 'no-store',
         });
         if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const json = (await res.json()) as ApiResp;
+        const json = (await res.json()) as HighlightsResponse;
+        if (generation !== generationRef.current) return;
 
-        // 用 idsRef 去重（避免 stale seenIds）
+        // 用 idsRef 去重（YouTube 有時分頁會重疊）
         const unique = json.items.filter((v) => !idsRef.current.has(v.id));
 
         // 在 setPages 之前就把這些 id 登記起來，避免競態
         unique.forEach((v) => idsRef.current.add(v.id));
 
         setPages((prev) => [...prev, unique]);
-        setNextPageToken(json.nextPageToken ?? null);
+        setNextCursor(json.nextCursor ?? null);
+        setTruncated(Boolean(json.truncated));
 
-        // 若到達這個時間窗的最後一頁（不論這一頁有沒有新片），視為超過時間窗
-        if (!json.nextPageToken) {
+        // 沒有下一頁游標代表這個日期區間已全部載完
+        if (!json.nextCursor) {
           setHitEnd(true);
         }
-
-        // 判斷整輪是否為 0 筆（避免空態閃爍）
-        const totalAfter = seenIds.size + unique.length;
       } catch (e: any) {
-        setError(e?.message ?? 'Fetch failed');
+        if (generation === generationRef.current) {
+          setError(e?.message ?? 'Fetch failed');
+        }
       } finally {
-        setLoading(false);
+        if (generation === generationRef.current) setLoading(false);
       }
     },
-    [baseUrl, keywords, pageSize, loading, hitEnd, seenIds]
+    [query, loading, hitEnd]
   );
 
-  // 首次載入或條件變動時重置（但 localDays 會回到起始 recentDays）
+  // 首次載入或條件變動時重置
   useEffect(() => {
+    if (query === loadedQueryRef.current) return;
+    loadedQueryRef.current = query;
+
     setPages([]);
-    setNextPageToken(null);
+    setNextCursor(null);
     setHitEnd(false);
+    setTruncated(false);
     setError(null);
-    setLocalDays(recentDays);
 
     // 重置時把已見 id 清空
     idsRef.current.clear();
@@ -129,22 +238,8 @@ export default function HighlightsList({
     // 立刻進入 loading，直接呼叫 load（不要 setTimeout）
     setHasRequested(false);
     setLoading(true);
-    load(null);
-  }, [keywords, recentDays, pageSize]);
-
-  // 當超過時間窗時，自動把窗再往前擴 60 天，並立刻開抓新窗第一頁
-  useEffect(() => {
-    if (hitEnd && localDays > 0) {
-      const nextDays = localDays + 60; // 可調整 30/60/90
-      setHitEnd(false);
-      setNextPageToken(null);
-      setLocalDays(nextDays);
-
-      // 不清空 pages，保留既有結果；靠 idsRef 去重即可
-      // 不用 setTimeout、不連打，直接一次 load(null)
-      load(null);
-    }
-  }, [hitEnd, localDays, load]);
+    load(null, true);
+  }, [query, load]);
 
   // IntersectionObserver 觸發下一頁
   const sentinelRef = useRef<HTMLDivElement | null>(null);
@@ -156,7 +251,7 @@ export default function HighlightsList({
       (entries) => {
         const first = entries[0];
         if (first.isIntersecting && !loading && !hitEnd) {
-          load(nextPageToken);
+          load(nextCursor);
         }
       },
       { rootMargin: '300px 0px' }
@@ -164,97 +259,207 @@ export default function HighlightsList({
 
     io.observe(el);
     return () => io.disconnect();
-  }, [load, loading, hitEnd, nextPageToken]);
+  }, [load, loading, hitEnd, nextCursor]);
 
   const videos = useMemo(() => pages.flat(), [pages]);
 
+  // 觀看紀錄（localStorage）；播放器寫入進度時這裡會跟著更新
+  const watched = useSyncExternalStore(
+    subscribeWatched,
+    getWatched,
+    getServerWatched
+  );
+
   // 前端做一次 AND 過濾（避免後端 keywords 的 OR 擴散太寬）
   const videosShown = useMemo(() => {
-    if (!titleMustAll || titleMustAll.length === 0) return videos;
     const must = titleMustAll.map((s) => s.toLowerCase());
+    const ids = teamsKey ? (teamsKey.split(',') as TeamId[]) : [];
     return videos.filter((v) => {
       const t = v.title.toLowerCase();
-      return must.every((m) => t.includes(m));
+      return (
+        must.every((m) => t.includes(m)) &&
+        videoMatchesTeams(v, ids) &&
+        !(hideWatched && watched[v.id]?.watched)
+      );
     });
-  }, [videos, titleMustAll]);
+  }, [videos, titleMustAll, teamsKey, hideWatched, watched]);
+
+  // 依比賽日期分組（新到舊），依觀看數排序時不分組（後端已排好，照回傳順序）；
+  // i 為在 videosShown 中的位置，給播放佇列用
+  const groups = useMemo(() => {
+    if (sort === 'views') {
+      return [{ date: null, items: videosShown.map((v, i) => ({ v, i })) }];
+    }
+    const byDate = new Map<string, { v: Video; i: number }[]>();
+    videosShown.forEach((v, i) => {
+      const d = videoDate(v);
+      byDate.set(d, [...(byDate.get(d) ?? []), { v, i }]);
+    });
+    return [...byDate.entries()]
+      .map(([date, items]) => ({ date: date as string | null, items }))
+      .sort((a, b) => b.date!.localeCompare(a.date!));
+  }, [videosShown, sort]);
+
+  // 播放中的佇列：開啟當下篩選結果的快照（避免「隱藏已看過」讓正在播的影片從佇列消失）
+  const [playing, setPlaying] = useState<{
+    queue: Video[];
+    index: number;
+  } | null>(null);
+
+  const closePlayer = useCallback(() => setPlaying(null), []);
 
   const shouldShowEmpty = hasRequested && !loading && videosShown.length === 0;
 
   return (
     <>
       {shouldShowEmpty && (
-        <p className="text-gray-600">目前沒有符合條件的影片。</p>
+        <p className="text-gray-600">{t('highlights.empty')}</p>
       )}
 
       {error && (
         <div className="mb-3 rounded-lg border border-red-200 bg-red-50 p-3 text-red-700">
-          讀取發生錯誤：{error}
+          {t('highlights.fetchError', { error })}
         </div>
       )}
 
-      <ul className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
-        {videosShown.map((v) => (
-          <li
-            key={v.id}
-            className="overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm transition hover:shadow-md"
-          >
-            <a
-              href={`https://www.youtube.com/watch?v=${v.id}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="block no-underline"
-            >
-              {v.thumbnail && (
-                <div
-                  className="relative w-full"
-                  style={{ aspectRatio: '16/9' }}
-                >
-                  <Image
-                    src={v.thumbnail}
-                    alt={v.title}
-                    fill
-                    sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
-                    className="object-cover"
-                    priority={false}
-                  />
-                </div>
-              )}
-              <div className="p-3">
-                <h3 className="line-clamp-2 text-base font-medium leading-snug text-gray-900">
-                  {v.title}
-                </h3>
-                <div className="mt-0.5 text-sm text-gray-700">
-                  {v.channelTitle}
-                </div>
-                <div className="mt-1 text-xs text-gray-500">
-                  {new Date(v.publishedAt).toLocaleString('zh-TW', {
-                    hour12: false,
-                  })}
-                </div>
-              </div>
-            </a>
-          </li>
+      <div className="space-y-6">
+        {groups.map((g) => (
+          <section key={g.date ?? 'all'}>
+            {/* 日期標題捲動時黏在上方 */}
+            {g.date !== null && (
+              <h3 className="sticky top-0 z-10 mb-2 bg-white/90 py-2 text-sm font-semibold text-gray-800 backdrop-blur">
+                {dateLabel(g.date, locale, t)}
+                <span className="ml-1 font-normal text-gray-500">
+                  {t(
+                    type === DEFAULT_CONTENT_TYPE
+                      ? 'highlights.groupGames'
+                      : 'highlights.groupVideos',
+                    { n: g.items.length }
+                  )}
+                </span>
+              </h3>
+            )}
+            <ul className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {g.items.map(({ v, i }) => {
+                const state = watched[v.id];
+                const progress =
+                  state && !state.watched && state.duration
+                    ? Math.min(1, state.position / state.duration)
+                    : 0;
+                return (
+                  <li
+                    key={v.id}
+                    className={[
+                      'overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm transition hover:shadow-md',
+                      // 看完的影片淡化
+                      state?.watched ? 'opacity-50 hover:opacity-100' : '',
+                    ].join(' ')}
+                  >
+                    <a
+                      href={`https://www.youtube.com/watch?v=${v.id}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={(e) => {
+                        if (!isPlainClick(e)) return;
+                        e.preventDefault();
+                        setPlaying({ queue: videosShown, index: i });
+                      }}
+                      className="block no-underline"
+                    >
+                      {v.thumbnail && (
+                        <div
+                          className="relative w-full"
+                          style={{ aspectRatio: '16/9' }}
+                        >
+                          <Image
+                            src={v.thumbnail}
+                            alt={v.title}
+                            fill
+                            sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
+                            className="object-cover"
+                            priority={false}
+                          />
+                          {state?.watched && (
+                            <span className="absolute top-2 right-2 rounded bg-black/70 px-1.5 py-0.5 text-xs text-white">
+                              {t('highlights.watched')}
+                            </span>
+                          )}
+                          <DetailsBadge v={v} />
+                          {/* 看到一半的影片顯示進度條 */}
+                          {progress > 0 && (
+                            <div className="absolute inset-x-0 bottom-0 h-1 bg-black/30">
+                              <div
+                                className="h-full bg-red-600"
+                                style={{ width: `${progress * 100}%` }}
+                              />
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      <div className="p-3">
+                        <h3 className="line-clamp-2 text-base font-medium leading-snug text-gray-900">
+                          {v.title}
+                        </h3>
+                        {v.awayTeam && v.homeTeam && <Scoreboard v={v} />}
+                        <div className="mt-0.5 text-sm text-gray-700">
+                          {v.channelTitle}
+                        </div>
+                        <div className="mt-1 text-xs text-gray-500">
+                          {formatDateTime(v.publishedAt, locale)}
+                          {v.details?.viewCount != null &&
+                            t('highlights.views', {
+                              n: v.details.viewCount,
+                              count: formatNumber(v.details.viewCount, locale),
+                            })}
+                        </div>
+                      </div>
+                    </a>
+                    {v.gameDate && v.awayTeamId && v.homeTeamId && (
+                      <Link
+                        href={gamePath(v.gameDate, v.awayTeamId, v.homeTeamId)}
+                        className="block border-t border-gray-100 px-3 py-2 text-sm text-blue-600 hover:bg-gray-50"
+                      >
+                        {t('common.gameInfo')}
+                      </Link>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
         ))}
-      </ul>
+      </div>
 
       {/* 載入狀態 / 按鈕 / Sentinel */}
       <div className="mt-4 flex items-center justify-center">
         {!hitEnd && (
           <button
             type="button"
-            onClick={() => load(nextPageToken)}
+            onClick={() => load(nextCursor)}
             disabled={loading}
             className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-60"
           >
-            {loading ? '載入中…' : '載入更多'}
+            {t(loading ? 'highlights.loading' : 'highlights.loadMore')}
           </button>
         )}
         {hitEnd && videos.length > 0 && (
-          <span className="text-sm text-gray-500">已無更多結果</span>
+          <span className="text-sm text-gray-500">
+            {t('highlights.end')}
+            {truncated &&
+              ` · ${t('highlights.rankedLatest', { n: MAX_RANKED_VIDEOS })}`}
+          </span>
         )}
       </div>
 
       <div ref={sentinelRef} className="h-8" />
+
+      {playing && (
+        <PlayerModal
+          queue={playing.queue}
+          startIndex={playing.index}
+          onClose={closePlayer}
+        />
+      )}
     </>
   );
 }
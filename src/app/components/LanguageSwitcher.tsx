@@ -0,0 +1,44 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useLocale } from './LocaleProvider';
+import { LOCALES, LOCALE_COOKIE, LOCALE_NAMES, type Locale } from '../lib/i18n';
+
+// 語言切換：寫入 cookie 後重新整理 Server Component，網址不變
+export default function LanguageSwitcher() {
+  const { locale, t } = useLocale();
+  const router = useRouter();
+
+  const choose = (next: Locale) => {
+    if (next === locale) return;
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=31536000; samesite=lax`;
+    document.documentElement.lang = next;
+    router.refresh();
+  };
+
+  return (
+    <div
+      role="group"
+      aria-label={t('lang.label')}
+      className="flex gap-1 text-sm"
+    >
+      {LOCALES.map((l) => (
+        <button
+          key={l}
+          type="button"
+          lang={l}
+          onClick={() => choose(l)}
+          aria-pressed={l === locale}
+          className={[
+            'rounded px-2 py-0.5 transition',
+            l === locale
+              ? 'bg-gray-800 text-white'
+              : 'text-gray-600 hover:bg-gray-100',
+          ].join(' ')}
+        >
+          {LOCALE_NAMES[l]}
+        </button>
+      ))}
+    </div>
+  );
+}
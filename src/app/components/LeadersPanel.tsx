@@ -0,0 +1,141 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useLocale } from './LocaleProvider';
+import { localTeamName } from '../lib/i18n';
+import {
+  formatLeaderValue,
+  type LeaderBoard,
+  type LeadersResponse,
+  type StatGroup,
+} from '../lib/leaders';
+import type { StandingsErrorBody } from '../lib/records';
+
+const GROUPS: StatGroup[] = ['batting', 'pitching'];
+
+// 單一項目的前五名；球員名連到官網球員頁
+function Board({ board }: { board: LeaderBoard }) {
+  const { locale, t } = useLocale();
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-2 text-sm shadow-sm">
+      <h4 className="mb-1 text-xs font-medium text-gray-500">
+        {t(`leaders.${board.category}`)}
+      </h4>
+      {board.leaders.length === 0 ? (
+        <p className="text-xs text-gray-400">{t('leaders.none')}</p>
+      ) : (
+        <ol className="space-y-0.5">
+          {board.leaders.map((l) => (
+            <li
+              key={`${l.player}-${l.team}`}
+              className="flex items-baseline gap-1.5"
+            >
+              <span className="w-4 shrink-0 text-right text-xs text-gray-400">
+                {l.rank}
+              </span>
+              <span className="min-w-0 flex-1 truncate">
+                {l.playerUrl ? (
+                  <a
+                    href={l.playerUrl}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-gray-900 hover:underline"
+                  >
+                    {l.player}
+                  </a>
+                ) : (
+                  <span className="text-gray-900">{l.player}</span>
+                )}{' '}
+                <span className="text-xs text-gray-500">
+                  {localTeamName(l.team, locale, true)}
+                </span>
+              </span>
+              <span className="font-mono text-gray-900">
+                {formatLeaderValue(board.category, l.value)}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+// 個人排行榜（打擊/投球各項目前五名），顯示在戰績表下方
+export default function LeadersPanel({ year }: { year: number }) {
+  const { t } = useLocale();
+  const [data, setData] = useState<LeadersResponse | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setData(null);
+    setErr(null);
+    (async () => {
+      try {
+        const r = await fetch(`/api/leaders?year=${year}`, {
+          cache: 'no-store',
+        });
+        if (!r.ok) {
+          const body = (await r
+            .json()
+            .catch(() => null)) as StandingsErrorBody | null;
+          throw new Error(body?.code ?? `HTTP ${r.status}`);
+        }
+        const json = await r.json();
+        if (!cancelled) setData(json);
+      } catch (e: any) {
+        if (!cancelled) setErr(e?.message ?? 'Fetch failed');
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [year]);
+
+  // 排行榜是輔助資訊：讀取中不佔版面，失敗時只顯示一行提示
+  if (err) {
+    return (
+      <p className="mb-3 text-xs text-gray-500">
+        {t('common.loadError', { error: err })}
+      </p>
+    );
+  }
+  if (!data) return null;
+
+  return (
+    <section className="mb-5">
+      <h2 className="mb-2 text-sm font-medium text-gray-700">
+        {t('leaders.heading', { year: data.query.year })}
+      </h2>
+      {GROUPS.map((group) => {
+        const boards = data.boards.filter((b) => b.group === group);
+        if (!boards.length) return null;
+        return (
+          <div key={group} className="mb-3">
+            <h3 className="mb-1 text-xs font-semibold text-gray-600">
+              {t(`leaders.${group}`)}
+            </h3>
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-3 lg:grid-cols-6">
+              {boards.map((b) => (
+                <Board key={b.category} board={b} />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      <p className="text-xs text-gray-500">
+        {data.boards.some((b) => b.qualifiedOnly) &&
+          `${t('leaders.qualified')}．`}
+        <a
+          href={data.source.batting ?? data.source.pitching}
+          target="_blank"
+          rel="noreferrer"
+          className="underline"
+        >
+          {t('leaders.source')}
+        </a>
+      </p>
+    </section>
+  );
+}
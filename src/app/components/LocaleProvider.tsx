@@ -0,0 +1,25 @@
+'use client';
+
+import { createContext, useContext, useMemo } from 'react';
+import { DEFAULT_LOCALE, createTranslator, type Locale } from '../lib/i18n';
+
+const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+// 由 layout 以伺服端判斷的語系包住整個頁面，Client Component 用 useLocale 取字串
+export default function LocaleProvider({
+  locale,
+  children,
+}: {
+  locale: Locale;
+  children: React.ReactNode;
+}) {
+  return (
+    <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>
+  );
+}
+
+export function useLocale() {
+  const locale = useContext(LocaleContext);
+  const t = useMemo(() => createTranslator(locale), [locale]);
+  return { locale, t };
+}
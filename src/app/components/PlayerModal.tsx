@@ -0,0 +1,257 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useLocale } from './LocaleProvider';
+import { gamePath } from '../lib/games';
+import type { Video } from '../lib/highlights';
+import {
+  getWatched,
+  markWatched,
+  resumeAt,
+  saveProgress,
+} from '../lib/watched';
+
+// YouTube IFrame API 只用到這幾個成員，不另外裝型別套件
+type YTPlayer = {
+  loadVideoById(o: { videoId: string; startSeconds?: number }): void;
+  getCurrentTime(): number;
+  getDuration(): number;
+  destroy(): void;
+};
+
+type YTNamespace = {
+  Player: new (el: HTMLElement, opts: Record<string, unknown>) => YTPlayer;
+  PlayerState: { ENDED: number; PAUSED: number };
+};
+
+declare global {
+  interface Window {
+    YT?: YTNamespace;
+    onYouTubeIframeAPIReady?: () => void;
+  }
+}
+
+let apiPromise: Promise<YTNamespace> | null = null;
+
+// 載入 IFrame API（整個頁面只載一次）
+function loadIframeApi(): Promise<YTNamespace> {
+  if (window.YT?.Player) return Promise.resolve(window.YT);
+  apiPromise ??= new Promise((resolve) => {
+    const prev = window.onYouTubeIframeAPIReady;
+    window.onYouTubeIframeAPIReady = () => {
+      prev?.();
+      resolve(window.YT!);
+    };
+    const script = document.createElement('script');
+    script.src = 'https://www.youtube.com/iframe_api';
+    document.head.appendChild(script);
+  });
+  return apiPromise;
+}
+
+// 播放器 modal：queue 是開啟時當下篩選結果的快照，播完自動接下一支
+export default function PlayerModal({
+  queue,
+  startIndex,
+  onClose,
+}: {
+  queue: Video[];
+  startIndex: number;
+  onClose: () => void;
+}) {
+  const [index, setIndex] = useState(startIndex);
+  const { t } = useLocale();
+  const hostRef = useRef<HTMLDivElement | null>(null);
+  const playerRef = useRef<YTPlayer | null>(null);
+
+  // 播放器事件是建立時綁定的，用 ref 讀最新的 index 與 queue
+  const indexRef = useRef(index);
+  indexRef.current = index;
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+
+  const current = queue[index];
+  const upNext = queue.slice(index + 1);
+
+  // 存下目前影片的進度；只在暫停、換片、關閉時存，播放中不寫 localStorage，
+  // 避免每次寫入都通知訂閱者讓列表重新 render
+  const persist = useCallback(() => {
+    const p = playerRef.current;
+    const v = queueRef.current[indexRef.current];
+    if (!p || !v) return;
+    const duration = p.getDuration?.() ?? 0;
+    const position = p.getCurrentTime?.() ?? 0;
+    if (position > 0) saveProgress(v.id, position, duration);
+  }, []);
+
+  // 建立播放器（只建立一次，之後換片用 loadVideoById）
+  useEffect(() => {
+    let cancelled = false;
+    loadIframeApi().then((YT) => {
+      if (cancelled || !hostRef.current) return;
+      const v = queueRef.current[indexRef.current];
+      playerRef.current = new YT.Player(hostRef.current, {
+        videoId: v.id,
+        playerVars: {
+          autoplay: 1,
+          rel: 0,
+          playsinline: 1,
+          start: resumeAt(getWatched()[v.id]),
+        },
+        events: {
+          onStateChange: (e: { data: number }) => {
+            if (e.data === YT.PlayerState.PAUSED) return persist();
+            if (e.data !== YT.PlayerState.ENDED) return;
+            const q = queueRef.current;
+            markWatched(q[indexRef.current].id);
+            if (indexRef.current < q.length - 1) {
+              setIndex(indexRef.current + 1);
+            }
+          },
+        },
+      });
+    });
+
+    // 直接關掉分頁時 cleanup 不會跑
+    window.addEventListener('pagehide', persist);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('pagehide', persist);
+      persist();
+      playerRef.current?.destroy();
+      playerRef.current = null;
+    };
+  }, [persist]);
+
+  // 換片：先存上一支的進度，再從續播位置開始
+  const prevIndexRef = useRef(index);
+  useEffect(() => {
+    if (prevIndexRef.current === index) return;
+    const p = playerRef.current;
+    const prev = queue[prevIndexRef.current];
+    if (p && prev) {
+      const position = p.getCurrentTime?.() ?? 0;
+      if (position > 0) saveProgress(prev.id, position, p.getDuration() ?? 0);
+    }
+    prevIndexRef.current = index;
+    p?.loadVideoById({
+      videoId: queue[index].id,
+      startSeconds: resumeAt(getWatched()[queue[index].id]),
+    });
+  }, [index, queue]);
+
+  // Esc 關閉
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  if (!current) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label={current.title}
+    >
+      <div
+        className="flex max-h-full w-full max-w-5xl flex-col overflow-hidden rounded-xl bg-white shadow-xl lg:flex-row"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex-1">
+          <div
+            className="relative w-full bg-black"
+            style={{ aspectRatio: '16/9' }}
+          >
+            <div ref={hostRef} className="absolute inset-0 h-full w-full" />
+          </div>
+          <div className="flex items-start justify-between gap-3 p-3">
+            <div>
+              <h2 className="text-base font-medium leading-snug text-gray-900">
+                {current.title}
+              </h2>
+              {current.gameDate && current.awayTeamId && current.homeTeamId && (
+                <Link
+                  href={gamePath(
+                    current.gameDate,
+                    current.awayTeamId,
+                    current.homeTeamId
+                  )}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  {t('common.gameInfo')}
+                </Link>
+              )}
+            </div>
+            <div className="flex shrink-0 gap-1">
+              <button
+                type="button"
+                onClick={() => setIndex((i) => i - 1)}
+                disabled={index === 0}
+                className="rounded border border-gray-300 px-2 py-1 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+                aria-label={t('player.prev')}
+              >
+                ⏮
+              </button>
+              <button
+                type="button"
+                onClick={() => setIndex((i) => i + 1)}
+                disabled={!upNext.length}
+                className="rounded border border-gray-300 px-2 py-1 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+                aria-label={t('player.next')}
+              >
+                ⏭
+              </button>
+              <button
+                type="button"
+                onClick={onClose}
+                className="rounded border border-gray-300 px-2 py-1 text-sm text-gray-700 hover:bg-gray-50"
+                aria-label={t('player.close')}
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* 接下來播放 */}
+        <aside className="max-h-64 overflow-y-auto border-t border-gray-200 lg:max-h-none lg:w-72 lg:border-t-0 lg:border-l">
+          <h3 className="sticky top-0 bg-white px-3 py-2 text-sm font-medium text-gray-700">
+            {t('player.upNext', { n: upNext.length })}
+          </h3>
+          <ol>
+            {upNext.map((v, i) => (
+              <li key={v.id}>
+                <button
+                  type="button"
+                  onClick={() => setIndex(index + 1 + i)}
+                  className="flex w-full gap-2 px-3 py-2 text-left hover:bg-gray-50"
+                >
+                  {v.thumbnail && (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      src={v.thumbnail}
+                      alt=""
+                      width={96}
+                      height={54}
+                      className="shrink-0 rounded object-cover"
+                    />
+                  )}
+                  <span className="line-clamp-2 text-xs text-gray-800">
+                    {v.title}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        </aside>
+      </div>
+    </div>
+  );
+}
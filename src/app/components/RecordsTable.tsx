@@ -1,49 +1,309 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { Fragment, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
 import ClipLoader from 'react-spinners/ClipLoader';
+import { useLocale } from './LocaleProvider';
+import Sparkline from './Sparkline';
+import {
+  FIRST_SEASON_YEAR,
+  standingsSearchParams,
+  type Half,
+  type HeadToHeadResponse,
+  type RecordsResponse,
+  type StandingRow,
+  type StandingsErrorBody,
+  type StandingsQuery,
+  type TeamAnalytics,
+  type TeamTrend,
+  type TrendPoint,
+} from '../lib/records';
+import { formatDateTime, localStreak, localTeamName } from '../lib/i18n';
+import { getTeam, teamPath } from '../lib/teams';
+import {
+  defaultStandingsQuery,
+  replaceSearchParams,
+  writeStandingsView,
+} from '../lib/viewState';
 
-type Response = { html: string; updatedAt: string; source: string };
+// 表頭（等分欄位，排名/球隊分開；最後一欄為走勢）
+const COLUMNS = [
+  'standings.rank',
+  'standings.team',
+  'standings.games',
+  'standings.wdl',
+  'standings.winRate',
+  'standings.gb',
+  'standings.elim',
+  'standings.streak',
+  'standings.last10',
+  'standings.trend',
+] as const;
 
-export default function CpblStandingsFragment() {
-  const [data, setData] = useState<Response | null>(null);
-  const [err, setErr] = useState<string | null>(null);
+// 進階數據（勾選後才顯示），插在走勢欄之前
+const ANALYTICS_COLUMNS = [
+  'standings.remaining',
+  'standings.magicElim',
+  'standings.projected',
+  'standings.firstOdds',
+  'standings.playoffOdds',
+] as const;
 
-  useEffect(() => {
-    (async () => {
-      try {
-        const r = await fetch('/api/records?v=1', { cache: 'no-store' });
-        if (!r.ok) throw new Error(`HTTP ${r.status}`);
-        setData(await r.json());
-      } catch (e: any) {
-        setErr(e?.message ?? 'Fetch failed');
-      }
-    })();
-  }, []);
+type Column = (typeof COLUMNS)[number] | (typeof ANALYTICS_COLUMNS)[number];
+
+function columnsFor(showAnalytics: boolean): readonly Column[] {
+  if (!showAnalytics) return COLUMNS;
+  return [...COLUMNS.slice(0, -1), ...ANALYTICS_COLUMNS, COLUMNS.at(-1)!];
+}
+
+// 走勢圖可切換的指標；排名與勝差越小越好
+type TrendMetric = 'rank' | 'winRate' | 'gb';
+
+const TREND_METRICS = [
+  { metric: 'rank', label: 'standings.rank', invert: true },
+  { metric: 'winRate', label: 'standings.winRate', invert: false },
+  { metric: 'gb', label: 'standings.gb', invert: true },
+] as const satisfies readonly {
+  metric: TrendMetric;
+  label: Column;
+  invert: boolean;
+}[];
 
+// 數值欄位缺值時顯示 '-'
+const show = (v: string | number | null | undefined) =>
+  v === null || v === undefined || v === '' ? '-' : String(v);
+
+function formatWDL(r: StandingRow) {
+  if (r.wins === null && r.draws === null && r.losses === null) return '-';
+  return [r.wins, r.draws, r.losses].map(show).join('-');
+}
+
+// 錯誤回應帶有分類代碼時一併顯示，方便判斷是官網連不上還是版面改了
+async function errorMessage(r: Response) {
+  const body = (await r.json().catch(() => null)) as StandingsErrorBody | null;
+  return body?.code ? `${body.code}：${body.error}` : `HTTP ${r.status}`;
+}
+
+function formatWinRate(v: number | null) {
+  return v === null ? '-' : v.toFixed(3);
+}
+
+// 模擬機率：有機會但不到 0.1% 時不要顯示成 0
+function formatOdds(p: number | null) {
+  if (p === null) return '-';
+  if (p > 0 && p < 0.001) return '<0.1%';
+  return `${(p * 100).toFixed(1)}%`;
+}
+
+// 領先球隊顯示魔術數字（M），其他球隊顯示淘汰數字（E）；歸零時改顯示文字
+function MagicCell({ a }: { a: TeamAnalytics }) {
+  const { t } = useLocale();
+  if (a.magic !== null)
+    return <>{a.magic === 0 ? t('standings.clinched') : `M${a.magic}`}</>;
+  if (a.elim !== null)
+    return <>{a.elim === 0 ? t('standings.eliminated') : `E${a.elim}`}</>;
+  return <>-</>;
+}
+
+// 展開列：列出該隊對每個對手的 勝-和-敗
+function HeadToHeadDetail({
+  team,
+  h2h,
+  err,
+}: {
+  team: string;
+  h2h: HeadToHeadResponse | null;
+  err: string | null;
+}) {
+  const { locale, t } = useLocale();
   if (err)
     return (
-      <div className="text-red-700 bg-red-50 border border-red-200 p-3 rounded">
-        讀取錯誤：{err}
-      </div>
+      <span className="text-red-700">
+        {t('common.loadError', { error: err })}
+      </span>
     );
-  if (!data)
-    return (
-      <div className="mb-5 rounded-xl bg-white text-black">
-        <div className="grid place-items-center">
-          <div
-            role="status"
-            aria-live="polite"
-            className="flex flex-col items-center gap-3 text-gray-600"
+  if (!h2h) return <ClipLoader color="currentColor" size={16} />;
+
+  const i = h2h.teams.indexOf(team);
+  const opponents =
+    i < 0
+      ? []
+      : h2h.teams
+          .map((opp, j) => ({
+            opp,
+            oppId: h2h.teamIds[j],
+            rec: h2h.matrix[i][j],
+          }))
+          .filter((x) => x.opp !== team);
+  if (!opponents.length)
+    return <span className="text-gray-500">{t('standings.noH2h')}</span>;
+
+  return (
+    <ul className="flex flex-wrap gap-2">
+      {opponents.map(({ opp, oppId, rec }) => (
+        <li
+          key={opp}
+          className="rounded-full border border-gray-200 bg-white px-3 py-1"
+        >
+          <span className="text-gray-600">
+            vs{' '}
+            {oppId ? (
+              <Link href={teamPath(oppId)} className="hover:underline">
+                {localTeamName(opp, locale)}
+              </Link>
+            ) : (
+              localTeamName(opp, locale)
+            )}
+          </span>{' '}
+          <span className="font-mono text-gray-900">
+            {rec ? `${rec.wins}-${rec.draws}-${rec.losses}` : '-'}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// 賽季/半季選擇器
+function SeasonPicker({
+  value,
+  onChange,
+}: {
+  value: StandingsQuery;
+  onChange: (q: StandingsQuery) => void;
+}) {
+  const { t } = useLocale();
+  const thisYear = new Date().getFullYear();
+  const years = Array.from(
+    { length: thisYear - FIRST_SEASON_YEAR + 1 },
+    (_, i) => thisYear - i
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={value.year}
+        onChange={(e) => onChange({ ...value, year: Number(e.target.value) })}
+        className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-gray-700"
+        aria-label={t('standings.year')}
+      >
+        {years.map((y) => (
+          <option key={y} value={y}>
+            {y}
+          </option>
+        ))}
+      </select>
+      {([0, 1, 2] as Half[]).map((h) => {
+        const active = value.half === h;
+        return (
+          <button
+            key={h}
+            type="button"
+            onClick={() => onChange({ ...value, half: h })}
+            className={[
+              'rounded-full border px-3 py-1 transition',
+              active
+                ? 'border-blue-600 bg-blue-50 text-blue-700'
+                : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50',
+            ].join(' ')}
+            aria-pressed={active}
           >
-            <ClipLoader color="currentColor" size={40} speedMultiplier={1} />
-          </div>
+            {t(`standings.half${h}`)}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function Spinner() {
+  return (
+    <div className="rounded-xl bg-white text-black">
+      <div className="grid place-items-center">
+        <div
+          role="status"
+          aria-live="polite"
+          className="flex flex-col items-center gap-3 text-gray-600"
+        >
+          <ClipLoader color="currentColor" size={40} speedMultiplier={1} />
         </div>
       </div>
-    );
+    </div>
+  );
+}
+
+// 走勢：依選的指標畫線（越好越高），滑鼠移上去可看到期間與首尾數值
+function TrendCell({
+  row,
+  trends,
+  metric,
+}: {
+  row: StandingRow;
+  trends: TeamTrend[];
+  metric: TrendMetric;
+}) {
+  const { t } = useLocale();
+  const trend = trends.find((t) =>
+    row.teamId ? t.teamId === row.teamId : t.team === row.team
+  );
+  const pts = trend?.points ?? [];
+  const first = pts[0];
+  const last = pts[pts.length - 1];
+  const { label, invert } = TREND_METRICS.find((m) => m.metric === metric)!;
+  const value = (p: TrendPoint) =>
+    metric === 'rank'
+      ? t('standings.trendRank', { n: show(p.rank) })
+      : `${t(label)} ${
+          metric === 'winRate'
+            ? formatWinRate(p.winRate)
+            : p.gb === 0
+            ? '-'
+            : show(p.gb)
+        }`;
+  return (
+    <Sparkline
+      values={pts.map((p) => p[metric])}
+      invert={invert}
+      color={getTeam(row.teamId)?.color}
+      label={
+        first && last
+          ? t('standings.trendLabel', {
+              from: first.date,
+              fromValue: value(first),
+              to: last.date,
+              toValue: value(last),
+            })
+          : undefined
+      }
+    />
+  );
+}
 
+function StandingsTable({
+  data,
+  expanded,
+  onToggle,
+  h2h,
+  h2hErr,
+  trends,
+  trendMetric,
+  showAnalytics,
+}: {
+  data: RecordsResponse;
+  expanded: string | null;
+  onToggle: (team: string) => void;
+  h2h: HeadToHeadResponse | null;
+  h2hErr: string | null;
+  trends: TeamTrend[];
+  trendMetric: TrendMetric;
+  showAnalytics: boolean;
+}) {
+  const { locale, t } = useLocale();
+  const columns = columnsFor(showAnalytics);
+  const colPct = (100 / columns.length).toFixed(4) + '%';
+  const { analytics } = data;
   return (
-    <div className="mb-5 rounded-xl border border-gray-200 bg-white text-black">
+    <div className="rounded-xl border border-gray-200 bg-white text-black">
       <div
         className={[
           'overflow-x-auto',
@@ -53,8 +313,325 @@ export default function CpblStandingsFragment() {
         ].join(' ')}
         style={{ WebkitOverflowScrolling: 'touch' }} // iOS 慣性捲動
       >
-        <div dangerouslySetInnerHTML={{ __html: data.html }} />
+        <div className="overflow-x-auto rounded-xl border border-gray-200 bg-white shadow-sm">
+          <table className="min-w-full table-fixed text-sm">
+            <colgroup>
+              {columns.map((c) => (
+                <col key={c} style={{ width: colPct }} />
+              ))}
+            </colgroup>
+            <thead className="bg-gray-50 text-gray-700">
+              <tr>
+                {columns.map((c) => (
+                  <th
+                    key={c}
+                    className={[
+                      'px-3 py-2 font-medium',
+                      c === 'standings.team' ? 'text-left' : 'text-center',
+                    ].join(' ')}
+                  >
+                    {t(c, { n: analytics.playoffSpots })}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {data.rows.map((r, idx) => {
+                const a = analytics.teams[idx];
+                return (
+                  <Fragment key={r.team}>
+                    <tr
+                      onClick={() => onToggle(r.team)}
+                      aria-expanded={expanded === r.team}
+                      className={[
+                        'cursor-pointer hover:bg-blue-50',
+                        idx % 2 ? 'bg-gray-50' : 'bg-white',
+                      ].join(' ')}
+                    >
+                      <td className="px-3 py-2 text-center font-semibold">
+                        {show(r.rank)}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {/* 球隊名稱連到站內球隊頁；對不到球隊時退回官網球隊頁 */}
+                        {r.teamId ? (
+                          <Link
+                            href={teamPath(r.teamId)}
+                            onClick={(e) => e.stopPropagation()}
+                            className="text-gray-900 hover:underline"
+                          >
+                            {localTeamName(r.team, locale)}
+                          </Link>
+                        ) : r.teamUrl ? (
+                          <a
+                            href={r.teamUrl}
+                            target="_blank"
+                            rel="noreferrer"
+                            onClick={(e) => e.stopPropagation()}
+                            className="text-gray-900 hover:underline"
+                          >
+                            {localTeamName(r.team, locale)}
+                          </a>
+                        ) : (
+                          <span className="text-gray-900">
+                            {localTeamName(r.team, locale)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-center font-mono">
+                        {show(r.games)}
+                      </td>
+                      <td className="px-3 py-2 text-center font-mono">
+                        {formatWDL(r)}
+                      </td>
+                      <td className="px-3 py-2 text-center font-mono">
+                        {formatWinRate(r.winRate)}
+                      </td>
+                      <td className="px-3 py-2 text-center font-mono">
+                        {show(r.gb)}
+                      </td>
+                      <td className="px-3 py-2 text-center font-mono">
+                        {show(r.elim)}
+                      </td>
+                      <td className="px-3 py-2 text-center">
+                        {show(localStreak(r.streak, locale))}
+                      </td>
+                      <td className="px-3 py-2 text-center">
+                        {show(r.last10)}
+                      </td>
+                      {showAnalytics && a && (
+                        <>
+                          <td className="px-3 py-2 text-center font-mono">
+                            {show(a.remaining)}
+                          </td>
+                          <td className="px-3 py-2 text-center font-mono">
+                            <MagicCell a={a} />
+                          </td>
+                          <td className="px-3 py-2 text-center font-mono">
+                            {a.projected
+                              ? formatWDL({ ...r, ...a.projected })
+                              : '-'}
+                          </td>
+                          <td className="px-3 py-2 text-center font-mono">
+                            {formatOdds(a.firstOdds)}
+                          </td>
+                          <td className="px-3 py-2 text-center font-mono">
+                            {formatOdds(a.playoffOdds)}
+                          </td>
+                        </>
+                      )}
+                      <td className="px-3 py-2 text-center">
+                        <TrendCell
+                          row={r}
+                          trends={trends}
+                          metric={trendMetric}
+                        />
+                      </td>
+                    </tr>
+                    {expanded === r.team && (
+                      <tr className="bg-blue-50/50">
+                        <td colSpan={columns.length} className="px-3 py-2">
+                          <HeadToHeadDetail
+                            team={r.team}
+                            h2h={h2h}
+                            err={h2hErr}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="p-2 text-xs text-gray-500">
+            {t('standings.source')}
+            <a
+              href={data.source}
+              target="_blank"
+              rel="noreferrer"
+              className="underline"
+            >
+              {t('standings.official')}
+            </a>
+            {t('standings.updated')}
+            {formatDateTime(data.updatedAt, locale)}
+            {showAnalytics &&
+              analytics.simulation &&
+              t('standings.simNote', {
+                runs: analytics.simulation.runs,
+                perPair: analytics.simulation.gamesPerPair,
+              })}
+          </div>
+        </div>
       </div>
     </div>
   );
 }
+
+export default function RecordsTable({
+  initialQuery,
+  initialData,
+}: {
+  initialQuery?: StandingsQuery; // 伺服端從網址 year/kindCode/half 解析出的賽季
+  initialData?: RecordsResponse; // 伺服端先抓好的戰績（與 initialQuery 同一季）
+}) {
+  const { locale, t } = useLocale();
+  const [query, setQuery] = useState<StandingsQuery>(
+    () => initialQuery ?? defaultStandingsQuery()
+  );
+  const [data, setData] = useState<RecordsResponse | null>(initialData ?? null);
+  const [err, setErr] = useState<string | null>(null);
+
+  // 伺服端的戰績只在第一次載入時沿用一次，之後切換賽季都照常向 API 抓
+  const preloadedRef = useRef(initialData ?? null);
+
+  // 點選球隊列展開對戰成績；對戰矩陣只在第一次展開時抓取
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [h2h, setH2h] = useState<HeadToHeadResponse | null>(null);
+  const [h2hErr, setH2hErr] = useState<string | null>(null);
+
+  // 每日快照累積的排名走勢；沒有歷史時維持空陣列
+  const [trends, setTrends] = useState<TeamTrend[]>([]);
+  const [trendMetric, setTrendMetric] = useState<TrendMetric>('rank');
+
+  // 進階數據欄位預設收起，避免表格在手機上太寬
+  const [showAnalytics, setShowAnalytics] = useState(false);
+
+  // 進行中的對戰矩陣請求：連點或展開多隊時共用同一個，換賽季時中止
+  const h2hRequestRef = useRef<AbortController | null>(null);
+
+  const toggle = async (team: string) => {
+    setExpanded((cur) => (cur === team ? null : team));
+    if (h2h || h2hErr || h2hRequestRef.current) return;
+    const controller = new AbortController();
+    h2hRequestRef.current = controller;
+    try {
+      const r = await fetch(
+        `/api/records/h2h?${standingsSearchParams(query)}`,
+        { cache: 'no-store', signal: controller.signal }
+      );
+      if (!r.ok) throw new Error(await errorMessage(r));
+      const json = await r.json();
+      if (!controller.signal.aborted) setH2h(json);
+    } catch (e: any) {
+      if (!controller.signal.aborted) setH2hErr(e?.message ?? 'Fetch failed');
+    } finally {
+      if (h2hRequestRef.current === controller) h2hRequestRef.current = null;
+    }
+  };
+
+  // 賽季條件變動時重抓，並清掉上一季的對戰資料；用 cancelled 丟棄過期回應
+  // 賽季切換同步到網址，方便分享/重新整理
+  useEffect(() => {
+    replaceSearchParams((p) => writeStandingsView(p, query));
+  }, [query]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const qs = standingsSearchParams(query).toString();
+    const preloaded =
+      preloadedRef.current &&
+      standingsSearchParams(preloadedRef.current.query).toString() === qs
+        ? preloadedRef.current
+        : null;
+    preloadedRef.current = null;
+    setData(preloaded);
+    setErr(null);
+    setExpanded(null);
+    // 上一季的對戰矩陣還沒回來就中止，晚到的回應不會蓋掉新賽季
+    h2hRequestRef.current?.abort();
+    h2hRequestRef.current = null;
+    setH2h(null);
+    setH2hErr(null);
+    setTrends([]);
+    (async () => {
+      if (!preloaded) {
+        try {
+          const r = await fetch(`/api/records?${qs}`, { cache: 'no-store' });
+          if (!r.ok) throw new Error(await errorMessage(r));
+          const json = await r.json();
+          if (!cancelled) setData(json);
+        } catch (e: any) {
+          if (!cancelled) setErr(e?.message ?? 'Fetch failed');
+          return;
+        }
+      }
+
+      // 戰績抓完（當日快照已存）再抓走勢；走勢只是輔助資訊，失敗就不顯示
+      try {
+        const r = await fetch(`/api/records/history?${qs}`, {
+          cache: 'no-store',
+        });
+        if (!r.ok) return;
+        const json = await r.json();
+        if (!cancelled) setTrends(json.trends ?? []);
+      } catch {
+        // 走勢讀不到（離線、歷史檔壞掉）：走勢欄顯示 '-'，戰績表照常
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  return (
+    <section className="mb-5">
+      <div className="mb-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+        <SeasonPicker value={query} onChange={setQuery} />
+        <div className="flex items-center gap-3">
+          <select
+            value={trendMetric}
+            onChange={(e) => setTrendMetric(e.target.value as TrendMetric)}
+            className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-gray-700"
+            aria-label={t('standings.trendMetric')}
+          >
+            {TREND_METRICS.map((m) => (
+              <option key={m.metric} value={m.metric}>
+                {t('standings.trendBy', { metric: t(m.label) })}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1.5 text-gray-700">
+            <input
+              type="checkbox"
+              checked={showAnalytics}
+              onChange={(e) => setShowAnalytics(e.target.checked)}
+            />
+            {t('standings.analytics')}
+          </label>
+        </div>
+      </div>
+      {err ? (
+        <div className="text-red-700 bg-red-50 border border-red-200 p-3 rounded">
+          {t('common.loadError', { error: err })}
+        </div>
+      ) : !data ? (
+        <Spinner />
+      ) : (
+        <>
+          {data.warning && (
+            <div
+              role="alert"
+              className="mb-2 rounded border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800"
+            >
+              {t('standings.stale', {
+                code: data.warning.code,
+                time: formatDateTime(data.updatedAt, locale),
+              })}
+            </div>
+          )}
+          <StandingsTable
+            data={data}
+            expanded={expanded}
+            onToggle={toggle}
+            h2h={h2h}
+            h2hErr={h2hErr}
+            trends={trends}
+            trendMetric={trendMetric}
+            showAnalytics={showAnalytics}
+          />
+        </>
+      )}
+    </section>
+  );
+}
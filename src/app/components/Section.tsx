@@ -0,0 +1,15 @@
+// 伺服端頁面（單場頁、球隊頁）的區塊標題＋內容
+export default function Section({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="mb-6">
+      <h2 className="mb-2 text-lg font-semibold text-gray-900">{title}</h2>
+      {children}
+    </section>
+  );
+}
@@ -0,0 +1,54 @@
+// 迷你走勢圖（純 SVG，不依賴圖表套件）；null 值會被略過
+export default function Sparkline({
+  values,
+  invert = false,
+  width = 80,
+  height = 20,
+  color = 'currentColor',
+  label,
+}: {
+  values: (number | null)[];
+  invert?: boolean; // 數字越小越好（例如排名）時設為 true，讓「好」在上方
+  width?: number;
+  height?: number;
+  color?: string;
+  label?: string;
+}) {
+  const pts = values
+    .map((v, i) => ({ v, i }))
+    .filter((p): p is { v: number; i: number } => p.v !== null);
+  if (pts.length < 2) return <span className="text-gray-400">-</span>;
+
+  const min = Math.min(...pts.map((p) => p.v));
+  const max = Math.max(...pts.map((p) => p.v));
+  const span = max - min || 1;
+  const pad = 2;
+  const x = (i: number) => pad + (i / (values.length - 1)) * (width - pad * 2);
+  const y = (v: number) => {
+    const t = (v - min) / span; // 0..1
+    return pad + (invert ? t : 1 - t) * (height - pad * 2);
+  };
+  const d = pts.map((p) => `${x(p.i)},${y(p.v)}`).join(' ');
+  const last = pts[pts.length - 1];
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      role="img"
+      aria-label={label}
+      className="inline-block align-middle"
+    >
+      {label && <title>{label}</title>}
+      <polyline
+        points={d}
+        fill="none"
+        stroke={color}
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+      />
+      <circle cx={x(last.i)} cy={y(last.v)} r={2} fill={color} />
+    </svg>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useLocale } from './LocaleProvider';
+import {
+  gamePath,
+  type Game,
+  type GameStatus,
+  type ScheduleResponse,
+} from '../lib/games';
+import { gameStatusLabel, localTeamName, teamName } from '../lib/i18n';
+import type { StandingsErrorBody } from '../lib/records';
+import { getTeam } from '../lib/teams';
+
+// 比賽進行中時每分鐘重新抓一次比數
+const LIVE_REFRESH_MS = 60_000;
+
+const STATUS_STYLES: Record<GameStatus, string> = {
+  scheduled: 'bg-gray-100 text-gray-600',
+  live: 'bg-red-50 text-red-700',
+  final: 'bg-gray-800 text-white',
+  postponed: 'bg-amber-50 text-amber-800',
+};
+
+// 隊名優先用登錄表的簡稱，對不到時用官網原文
+function TeamLine({
+  id,
+  name,
+  score,
+  win,
+}: {
+  id: Game['awayTeamId'];
+  name: string;
+  score: number | null;
+  win: boolean;
+}) {
+  const { locale } = useLocale();
+  const team = id ? getTeam(id) : null;
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span
+        className={`flex items-center gap-1 ${
+          win ? 'font-semibold text-gray-900' : 'text-gray-700'
+        }`}
+      >
+        {team && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={team.logo} alt="" width={16} height={16} />
+        )}
+        {team ? teamName(team, locale, true) : localTeamName(name, locale)}
+      </span>
+      <span className="font-mono text-gray-900">{score ?? ''}</span>
+    </div>
+  );
+}
+
+function GameCard({ g }: { g: Game }) {
+  const { locale, t } = useLocale();
+  const away = g.score?.away ?? null;
+  const home = g.score?.home ?? null;
+  const done = g.status === 'final' && away !== null && home !== null;
+  const card = (
+    <div className="w-40 shrink-0 rounded-lg border border-gray-200 bg-white p-2 text-sm shadow-sm">
+      <div className="mb-1 flex items-center justify-between text-xs">
+        <span className={`rounded px-1.5 py-0.5 ${STATUS_STYLES[g.status]}`}>
+          {gameStatusLabel(g, locale, t)}
+        </span>
+        <span className="text-gray-500">
+          {g.gameNo !== null ? `G${g.gameNo} ` : ''}
+          {g.venue}
+        </span>
+      </div>
+      <TeamLine
+        id={g.awayTeamId}
+        name={g.awayTeam}
+        score={away}
+        win={done && away! > home!}
+      />
+      <TeamLine
+        id={g.homeTeamId}
+        name={g.homeTeam}
+        score={home}
+        win={done && home! > away!}
+      />
+      {g.highlightId && (
+        <div className="mt-1 text-xs text-blue-600">{t('today.highlight')}</div>
+      )}
+    </div>
+  );
+
+  // 已結束的比賽整張卡片連到單場頁（內嵌精華與 box score）
+  return g.status === 'final' && g.awayTeamId && g.homeTeamId ? (
+    <Link
+      href={gamePath(g.date, g.awayTeamId, g.homeTeamId)}
+      className="hover:opacity-80"
+    >
+      {card}
+    </Link>
+  ) : (
+    card
+  );
+}
+
+// 今日賽程比分列（顯示在戰績表上方）
+export default function TodayGames() {
+  const { t } = useLocale();
+  const [data, setData] = useState<ScheduleResponse | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  const live = data?.games.some((g) => g.status === 'live') ?? false;
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const r = await fetch('/api/schedule', { cache: 'no-store' });
+        if (!r.ok) {
+          const body = (await r
+            .json()
+            .catch(() => null)) as StandingsErrorBody | null;
+          throw new Error(body?.code ?? `HTTP ${r.status}`);
+        }
+        const json = await r.json();
+        if (!cancelled) {
+          setData(json);
+          setErr(null);
+        }
+      } catch (e: any) {
+        if (!cancelled) setErr(e?.message ?? 'Fetch failed');
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // 有比賽進行中才輪詢，全部結束後自動停止
+  useEffect(() => {
+    if (!live) return;
+    const timer = setInterval(async () => {
+      try {
+        const r = await fetch('/api/schedule', { cache: 'no-store' });
+        if (r.ok) setData(await r.json());
+      } catch {
+        // 輪詢失敗（網路不穩）：保留上一次的比數，下一輪再試
+      }
+    }, LIVE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [live]);
+
+  // 賽程只是輔助資訊：讀取中不佔版面，失敗時只顯示一行提示
+  if (err) {
+    return (
+      <p className="mb-3 text-xs text-gray-500">
+        {t('today.error', { error: err })}
+      </p>
+    );
+  }
+  if (!data) return null;
+
+  return (
+    <section className="mb-5">
+      <h2 className="mb-2 text-sm font-medium text-gray-700">
+        {t('today.heading', { date: data.date })}
+      </h2>
+      {data.games.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('today.none')}</p>
+      ) : (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {data.games.map((g) => (
+            <GameCard key={`${g.gameNo}-${g.awayTeam}`} g={g} />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
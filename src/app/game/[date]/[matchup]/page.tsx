@@ -0,0 +1,329 @@
+// 單場比賽頁：全場精華影片 + 官網 box score（逐局比分、打擊/投手成績、勝敗投）+ 兩隊今日戰績
+export const dynamic = 'force-dynamic';
+
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import DataTable from '../../../components/DataTable';
+import Section from '../../../components/Section';
+import { loadBoxScore, boxUrl } from '../../../lib/boxScore';
+import { ScrapeError } from '../../../lib/cpbl';
+import { isDateString, taipeiDate } from '../../../lib/dates';
+import {
+  createTranslator,
+  gameStatusLabel,
+  localTeamName,
+  teamName,
+  type Locale,
+  type Translate,
+} from '../../../lib/i18n';
+import {
+  parseMatchup,
+  type BattingLine,
+  type BoxScore,
+  type Game,
+  type PitchingLine,
+} from '../../../lib/games';
+import { findGameHighlight } from '../../../lib/highlights';
+import { highlightCandidates } from '../../../lib/highlightIndex';
+import { DEFAULT_KIND_CODE, type StandingRow } from '../../../lib/records';
+import { loadSchedule } from '../../../lib/schedule';
+import { getLocale } from '../../../lib/serverLocale';
+import { loadStandings } from '../../../lib/standings';
+import { getTeam, teamPath } from '../../../lib/teams';
+
+type Params = Promise<{ date: string; matchup: string }>;
+
+const show = (v: string | number | null | undefined) =>
+  v === null || v === undefined || v === '' ? '-' : String(v);
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Params;
+}): Promise<Metadata> {
+  const { date, matchup } = await params;
+  const ids = parseMatchup(matchup);
+  if (!ids) return {};
+  const locale = await getLocale();
+  const t = createTranslator(locale);
+  const away = teamName(getTeam(ids.awayTeamId)!, locale);
+  const home = teamName(getTeam(ids.homeTeamId)!, locale);
+  return { title: `${date} ${away} vs ${home}｜${t('site.title')}` };
+}
+
+function LineScoreTable({
+  box,
+  locale,
+  t,
+}: {
+  box: BoxScore;
+  locale: Locale;
+  t: Translate;
+}) {
+  const innings = Math.max(...box.lineScore.map((l) => l.innings.length));
+  return (
+    <DataTable
+      headers={[
+        t('game.team'),
+        ...Array.from({ length: innings }, (_, i) => String(i + 1)),
+        'R',
+        'H',
+        'E',
+      ]}
+      rows={box.lineScore.map((l) => [
+        localTeamName(l.team, locale),
+        ...Array.from({ length: innings }, (_, i) => l.innings[i] ?? null),
+        l.runs,
+        l.hits,
+        l.errors,
+      ])}
+    />
+  );
+}
+
+function BattingTable({ lines, t }: { lines: BattingLine[]; t: Translate }) {
+  return (
+    <DataTable
+      headers={[
+        t('game.batter'),
+        t('game.position'),
+        t('game.ab'),
+        t('game.runs'),
+        t('game.hits'),
+        t('game.rbi'),
+        t('game.bb'),
+        t('game.so'),
+        t('game.avg'),
+      ]}
+      rows={lines.map((b) => [
+        b.name,
+        b.position,
+        b.ab,
+        b.runs,
+        b.hits,
+        b.rbi,
+        b.bb,
+        b.so,
+        b.avg,
+      ])}
+    />
+  );
+}
+
+function PitchingTable({ lines, t }: { lines: PitchingLine[]; t: Translate }) {
+  return (
+    <DataTable
+      headers={[
+        t('game.pitcher'),
+        t('game.ip'),
+        t('game.hitsAllowed'),
+        t('game.runsAllowed'),
+        t('game.er'),
+        t('game.bb'),
+        t('game.so'),
+        t('game.era'),
+      ]}
+      rows={lines.map((p) => [
+        p.name,
+        p.ip,
+        p.hits,
+        p.runs,
+        p.er,
+        p.bb,
+        p.so,
+        p.era,
+      ])}
+    />
+  );
+}
+
+function StandingRows({
+  rows,
+  locale,
+  t,
+}: {
+  rows: StandingRow[];
+  locale: Locale;
+  t: Translate;
+}) {
+  return (
+    <DataTable
+      headers={[
+        t('standings.team'),
+        t('standings.rank'),
+        t('standings.games'),
+        t('standings.wdl'),
+        t('standings.winRate'),
+        t('standings.gb'),
+        t('game.last10'),
+      ]}
+      rows={rows.map((r) => [
+        localTeamName(r.team, locale),
+        r.rank,
+        r.games,
+        [r.wins, r.draws, r.losses].map(show).join('-'),
+        r.winRate === null ? null : r.winRate.toFixed(3),
+        r.gb,
+        r.last10,
+      ])}
+    />
+  );
+}
+
+export default async function GamePage({ params }: { params: Params }) {
+  const { date, matchup } = await params;
+  const ids = parseMatchup(matchup);
+  if (!ids || !isDateString(date)) notFound();
+
+  const away = getTeam(ids.awayTeamId)!;
+  const home = getTeam(ids.homeTeamId)!;
+  const locale = await getLocale();
+  const t = createTranslator(locale);
+
+  // 賽程（找場次與 box 連結）、今日戰績、精華影片同時抓；任何一項失敗都只是少一塊
+  const [schedule, standings, videos] = await Promise.all([
+    loadSchedule(date).catch(() => [] as Game[]),
+    loadStandings({
+      year: Number(taipeiDate().slice(0, 4)),
+      kindCode: DEFAULT_KIND_CODE,
+      half: 0,
+    }).catch(() => null),
+    highlightCandidates(),
+  ]);
+
+  const game =
+    schedule.find(
+      (g) => g.awayTeamId === ids.awayTeamId && g.homeTeamId === ids.homeTeamId
+    ) ?? null;
+  const video = findGameHighlight(videos, {
+    date,
+    ...ids,
+    gameNo: game?.gameNo ?? null,
+  });
+  if (!game && !video) notFound();
+
+  // box 頁：優先用賽程頁的連結，沒有時用場次編號組出來
+  const gameNo = game?.gameNo ?? video?.gameNo ?? null;
+  const boxSource =
+    game?.boxUrl ??
+    (gameNo !== null ? boxUrl(Number(date.slice(0, 4)), gameNo) : null);
+  let box: BoxScore | null = null;
+  let boxErr: string | null = null;
+  if (boxSource && game?.status !== 'scheduled') {
+    try {
+      box = await loadBoxScore(boxSource);
+    } catch (e) {
+      if (!(e instanceof ScrapeError)) throw e;
+      boxErr = `${e.code}：${e.message}`;
+    }
+  }
+
+  const teamRows = (standings?.parsed.rows ?? []).filter(
+    (r) => r.teamId === away.id || r.teamId === home.id
+  );
+
+  return (
+    <main className="mx-auto max-w-5xl px-6 py-8">
+      <header className="mb-6">
+        <Link href="/" className="text-sm text-gray-600 hover:underline">
+          {t('game.back')}
+        </Link>
+        <h1 className="mt-2 text-3xl font-semibold tracking-tight text-gray-900">
+          <Link href={teamPath(away.id)} className="hover:underline">
+            {teamName(away, locale)}
+          </Link>{' '}
+          vs{' '}
+          <Link href={teamPath(home.id)} className="hover:underline">
+            {teamName(home, locale)}
+          </Link>
+        </h1>
+        <p className="mt-1 text-sm text-gray-600">
+          {date}
+          {gameNo !== null && ` · G${gameNo}`}
+          {game?.venue && ` · ${game.venue}`}
+          {game?.score && ` · ${game.score.away} : ${game.score.home}`}
+          {game && ` · ${gameStatusLabel(game, locale, t)}`}
+        </p>
+      </header>
+
+      <Section title={t('game.highlight')}>
+        {video ? (
+          <div
+            className="relative w-full overflow-hidden rounded-xl bg-black"
+            style={{ aspectRatio: '16/9' }}
+          >
+            <iframe
+              src={`https://www.youtube-nocookie.com/embed/${video.id}`}
+              title={video.title}
+              allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+              allowFullScreen
+              className="absolute inset-0 h-full w-full"
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">{t('game.noHighlight')}</p>
+        )}
+      </Section>
+
+      {box ? (
+        <>
+          <Section title={t('game.lineScore')}>
+            <LineScoreTable box={box} locale={locale} t={t} />
+            {(box.decisions.win || box.decisions.loss) && (
+              <p className="mt-2 text-sm text-gray-700">
+                {(
+                  [
+                    ['game.win', box.decisions.win],
+                    ['game.loss', box.decisions.loss],
+                    ['game.save', box.decisions.save],
+                    ['game.hold', box.decisions.hold],
+                  ] as const
+                )
+                  .filter(([, name]) => name)
+                  .map(([key, name]) => `${t(key)}：${name}`)
+                  .join('　')}
+              </p>
+            )}
+          </Section>
+          {[0, 1].map((side) => (
+            <Section
+              key={side}
+              title={t('game.teamStats', {
+                team:
+                  localTeamName(box!.lineScore[side].team, locale) ||
+                  teamName(side ? home : away, locale),
+              })}
+            >
+              <div className="space-y-3">
+                {box!.batting[side].length > 0 && (
+                  <BattingTable lines={box!.batting[side]} t={t} />
+                )}
+                {box!.pitching[side].length > 0 && (
+                  <PitchingTable lines={box!.pitching[side]} t={t} />
+                )}
+              </div>
+            </Section>
+          ))}
+          <p className="mb-6 text-xs text-gray-500">
+            <a href={box.source} target="_blank" rel="noopener noreferrer">
+              {t('game.boxSource')}
+            </a>
+          </p>
+        </>
+      ) : (
+        boxErr && (
+          <div className="mb-6 rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            {t('game.boxError', { error: boxErr })}
+          </div>
+        )
+      )}
+
+      {teamRows.length > 0 && (
+        <Section title={t('game.standings')}>
+          <StandingRows rows={teamRows} locale={locale} t={t} />
+        </Section>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,137 @@
+import { readFileSync } from 'fs';
+import * as cheerio from 'cheerio';
+import { describe, expect, it } from 'vitest';
+import { boxUrl, parseBoxScore } from './boxScore';
+import { ScrapeError } from './cpbl';
+
+const SOURCE = boxUrl(2025, 121);
+const recorded = readFileSync(
+  'fixtures/cpbl/box-index__gameSno=121_kindCode=A_year=2025.html',
+  'utf8'
+);
+
+// 拿掉符合 selector 的區塊
+function without(html: string, selector: string) {
+  const $ = cheerio.load(html);
+  $(selector).remove();
+  return $.html();
+}
+
+// 拿掉標題含 keyword 的成績表
+const withoutTables = (html: string, keyword: string) =>
+  without(
+    html,
+    `.RecordTableWrap:has(.record_table_caption:contains(${keyword}))`
+  );
+
+const scrapeError = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (e) {
+    if (e instanceof ScrapeError) return e;
+  }
+  throw new Error('expected a ScrapeError');
+};
+
+describe('parseBoxScore', () => {
+  it('parses the recorded box score', () => {
+    const box = parseBoxScore(recorded, SOURCE);
+    expect(box.source).toBe(SOURCE);
+    expect(box.lineScore).toEqual([
+      {
+        team: '中信兄弟',
+        teamId: 'brothers',
+        innings: [0, 1, 0, 0, 2, 0, 0, 0, 0],
+        runs: 3,
+        hits: 8,
+        errors: 1,
+      },
+      {
+        team: '統一7-ELEVEn獅',
+        teamId: 'lions',
+        // 主隊領先，九局下沒打
+        innings: [0, 0, 3, 0, 0, 2, 0, 0, null],
+        runs: 5,
+        hits: 9,
+        errors: 0,
+      },
+    ]);
+    expect(box.decisions).toEqual({
+      win: '陳韻文',
+      loss: '李振昌',
+      save: '林子崴',
+      hold: null,
+    });
+  });
+
+  it('reads batting and pitching lines without the totals row', () => {
+    const { batting, pitching } = parseBoxScore(recorded, SOURCE);
+    expect(batting[0].map((b) => b.name)).toEqual([
+      '王威晨',
+      '江坤宇',
+      '許基宏',
+    ]);
+    expect(batting[1][0]).toEqual({
+      name: '陳傑憲',
+      position: 'RF',
+      ab: 4,
+      runs: 2,
+      hits: 3,
+      rbi: 1,
+      bb: 0,
+      so: 0,
+      avg: '0.335',
+    });
+    expect(pitching[1]).toEqual([
+      expect.objectContaining({ name: '陳韻文 (W)', ip: '6.0', er: 3 }),
+      expect.objectContaining({ name: '林子崴 (S)', ip: '3.0', so: 2 }),
+    ]);
+  });
+
+  it('resolves team aliases in the line score', () => {
+    const html = recorded.replace(
+      '<td>統一7-ELEVEn獅</td><td>0</td>',
+      '<td>統一獅</td><td>0</td>'
+    );
+    const [, home] = parseBoxScore(html, SOURCE).lineScore;
+    expect(home).toMatchObject({ team: '統一獅', teamId: 'lions' });
+  });
+
+  it('leaves missing batting or pitching sections empty', () => {
+    const noPitching = parseBoxScore(withoutTables(recorded, '投手'), SOURCE);
+    expect(noPitching.pitching).toEqual([[], []]);
+    expect(noPitching.batting[0]).toHaveLength(3);
+
+    // 只剩客隊打擊成績時，主隊那邊是空的
+    const html = without(
+      withoutTables(recorded, '投手'),
+      '.RecordTableWrap:has(.record_table_caption:contains(統一7-ELEVEn獅))'
+    );
+    const box = parseBoxScore(without(html, '.decisions'), SOURCE);
+    expect(box.batting.map((b) => b.length)).toEqual([3, 0]);
+    expect(box.decisions).toEqual({
+      win: null,
+      loss: null,
+      save: null,
+      hold: null,
+    });
+  });
+
+  it('requires the line score', () => {
+    expect(
+      scrapeError(() => parseBoxScore(without(recorded, '.linescore'), SOURCE))
+        .code
+    ).toBe('LAYOUT_CHANGED');
+
+    const noRuns = recorded.replace('<th>R</th>', '<th>Total</th>');
+    expect(scrapeError(() => parseBoxScore(noRuns, SOURCE))).toMatchObject({
+      code: 'LAYOUT_CHANGED',
+      details: { missing: ['R'] },
+    });
+
+    const headerOnly = without(recorded, '.linescore tr:not(:first-child)');
+    expect(scrapeError(() => parseBoxScore(headerOnly, SOURCE)).code).toBe(
+      'EMPTY_TABLE'
+    );
+  });
+});
@@ -0,0 +1,169 @@
+// CPBL 官網單場 box 頁的抓取與解析：逐局比分、打擊/投手成績與勝敗投（僅供伺服端使用）
+import * as cheerio from 'cheerio';
+import {
+  CPBL_BASE,
+  ScrapeError,
+  clean,
+  fetchCpblPage,
+  readTable,
+  toNum,
+  type Cheerio,
+} from './cpbl';
+import type {
+  BattingLine,
+  BoxScore,
+  LineScore,
+  PitchingDecisions,
+  PitchingLine,
+} from './games';
+import { resolveTeam } from './teams';
+
+export const BOX_SOURCE = `${CPBL_BASE}/box/index`;
+
+// 賽程頁沒給 box 連結時，用年度 + 場次組出來
+export function boxUrl(year: number, gameNo: number, kindCode = 'A') {
+  const url = new URL(BOX_SOURCE);
+  url.searchParams.set('gameSno', String(gameNo));
+  url.searchParams.set('year', String(year));
+  url.searchParams.set('kindCode', kindCode);
+  return url.toString();
+}
+
+function parseLineScore($: cheerio.CheerioAPI): [LineScore, LineScore] {
+  const table = $('.linescore table').first();
+  if (!table.length) {
+    throw new ScrapeError('LAYOUT_CHANGED', 'Line score not found', {
+      expected: '.linescore table',
+    });
+  }
+  const { headers, col, rows, cell } = readTable($, table);
+  const iRuns = col('R', '得分');
+  if (iRuns < 0) {
+    throw new ScrapeError('LAYOUT_CHANGED', 'Line score headers missing', {
+      missing: ['R'],
+      headers,
+    });
+  }
+  const iHits = col('H', '安打');
+  const iErrors = col('E', '失誤');
+  // 局數欄：表頭是純數字的欄位
+  const innings = headers
+    .map((h, i) => (/^\d+$/.test(h) ? i : -1))
+    .filter((i) => i >= 0);
+
+  const lines = rows
+    .map((cells): LineScore => {
+      const team = cell(cells, 0);
+      return {
+        team,
+        teamId: resolveTeam(team),
+        innings: innings.map((i) => toNum(cell(cells, i))),
+        runs: toNum(cell(cells, iRuns)),
+        hits: toNum(cell(cells, iHits)),
+        errors: toNum(cell(cells, iErrors)),
+      };
+    })
+    .filter((l) => l.team);
+  if (lines.length < 2) {
+    throw new ScrapeError('EMPTY_TABLE', 'Line score has no rows', {
+      headers,
+      rows: lines.length,
+    });
+  }
+  return [lines[0], lines[1]];
+}
+
+function parseBatting($: cheerio.CheerioAPI, table: Cheerio): BattingLine[] {
+  const { col, rows, cell } = readTable($, table);
+  const i = {
+    pos: col('守位'),
+    ab: col('打數'),
+    runs: col('得分'),
+    hits: col('安打'),
+    rbi: col('打點'),
+    bb: col('四壞'),
+    so: col('三振'),
+    avg: col('打擊率'),
+  };
+  return rows
+    .map((cells) => ({
+      name: cell(cells, 0),
+      position: cell(cells, i.pos),
+      ab: toNum(cell(cells, i.ab)),
+      runs: toNum(cell(cells, i.runs)),
+      hits: toNum(cell(cells, i.hits)),
+      rbi: toNum(cell(cells, i.rbi)),
+      bb: toNum(cell(cells, i.bb)),
+      so: toNum(cell(cells, i.so)),
+      avg: cell(cells, i.avg),
+    }))
+    .filter((r) => r.name && !r.name.includes('合計'));
+}
+
+function parsePitching($: cheerio.CheerioAPI, table: Cheerio): PitchingLine[] {
+  const { col, rows, cell } = readTable($, table);
+  const i = {
+    ip: col('局數'),
+    hits: col('被安打'),
+    runs: col('失分'),
+    er: col('自責分'),
+    bb: col('四壞'),
+    so: col('三振'),
+    era: col('防禦率'),
+  };
+  return rows
+    .map((cells) => ({
+      name: cell(cells, 0),
+      ip: cell(cells, i.ip),
+      hits: toNum(cell(cells, i.hits)),
+      runs: toNum(cell(cells, i.runs)),
+      er: toNum(cell(cells, i.er)),
+      bb: toNum(cell(cells, i.bb)),
+      so: toNum(cell(cells, i.so)),
+      era: cell(cells, i.era),
+    }))
+    .filter((r) => r.name && !r.name.includes('合計'));
+}
+
+// 「勝投：某某　敗投：某某　救援：某某」
+function parseDecisions(text: string): PitchingDecisions {
+  const pick = (label: string) =>
+    text.match(new RegExp(`${label}[:：]\\s*([^\\s,，、]+)`))?.[1] ?? null;
+  return {
+    win: pick('勝投'),
+    loss: pick('敗投'),
+    save: pick('救援'),
+    hold: pick('中繼'),
+  };
+}
+
+// 依標題找成績表（依頁面順序：客隊在前、主隊在後）；缺表時回傳空陣列
+function captionedTables($: cheerio.CheerioAPI, keyword: string) {
+  return $('.RecordTableWrap')
+    .filter((_, el) =>
+      $(el).find('.record_table_caption').text().includes(keyword)
+    )
+    .map((_, el) => [$(el).find('table').first()])
+    .get() as Cheerio[];
+}
+
+// 解析 box 頁；逐局比分是必要的，打擊/投手成績可缺
+export function parseBoxScore(html: string, source: string): BoxScore {
+  const $ = cheerio.load(html);
+  const lineScore = parseLineScore($);
+
+  const batting = captionedTables($, '打擊').map((t) => parseBatting($, t));
+  const pitching = captionedTables($, '投手').map((t) => parsePitching($, t));
+
+  return {
+    source,
+    lineScore,
+    batting: [batting[0] ?? [], batting[1] ?? []],
+    pitching: [pitching[0] ?? [], pitching[1] ?? []],
+    decisions: parseDecisions(clean($('.decisions').text())),
+  };
+}
+
+export async function loadBoxScore(url: string) {
+  return parseBoxScore(await fetchCpblPage(url), url);
+}
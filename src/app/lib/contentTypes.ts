@@ -0,0 +1,28 @@
+// 影片類型：全場精華以外的內容（好球、訪問、每日回顧），供 API 路由與前端共用
+// 各類型實際對應到哪個播放清單/頻道由伺服端的 sources.ts 設定
+
+export type ContentTypeId = 'fullgame' | 'topplays' | 'interviews' | 'recap';
+
+export type ContentType = {
+  id: ContentTypeId;
+  label: string; // 分頁標籤
+};
+
+export const CONTENT_TYPES: ContentType[] = [
+  { id: 'fullgame', label: '全場精華' },
+  { id: 'topplays', label: '好球精選' },
+  { id: 'interviews', label: '賽後訪問' },
+  { id: 'recap', label: 'CPBL TV 每日回顧' },
+];
+
+export const DEFAULT_CONTENT_TYPE: ContentTypeId = 'fullgame';
+
+const byId = new Map(CONTENT_TYPES.map((t) => [t.id, t]));
+
+export function getContentType(id: string | null | undefined) {
+  return (id && byId.get(id as ContentTypeId)) || null;
+}
+
+export function isContentType(id: string): id is ContentTypeId {
+  return byId.has(id as ContentTypeId);
+}
@@ -0,0 +1,87 @@
+// CPBL 官網爬取的共用工具：頁面抓取、錯誤分類與文字清理（僅供伺服端使用）
+import type * as cheerio from 'cheerio';
+import type { ScrapeErrorCode } from './records';
+import { upstreamFetch } from './upstream';
+
+export const CPBL_BASE = 'https://www.cpbl.com.tw';
+
+// 抓取/解析失敗的分類：SOURCE_UNAVAILABLE 官網連不上、LAYOUT_CHANGED 版面不符、EMPTY_TABLE 表格沒有資料
+export class ScrapeError extends Error {
+  constructor(
+    public code: ScrapeErrorCode,
+    message: string,
+    public details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'ScrapeError';
+  }
+
+  // 對應的 HTTP 狀態碼：上游問題為 502，版面/資料問題為 500
+  get status() {
+    return this.code === 'SOURCE_UNAVAILABLE' ? 502 : 500;
+  }
+}
+
+// 抓取官網頁面（不快取，帶瀏覽器 UA 避免被擋）；連線失敗或非 2xx 都視為 SOURCE_UNAVAILABLE
+export async function fetchCpblPage(url: string) {
+  let res: Response;
+  try {
+    res = await upstreamFetch(url, {
+      cache: 'no-store',
+      headers: {
+        'User-Agent':
+          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome Safari',
+        'Accept-Language': 'zh-TW,zh;q=0.9',
+      },
+    });
+  } catch (e: any) {
+    throw new ScrapeError('SOURCE_UNAVAILABLE', 'CPBL fetch failed', {
+      url,
+      cause: e?.message ?? String(e),
+    });
+  }
+  if (!res.ok) {
+    throw new ScrapeError('SOURCE_UNAVAILABLE', `CPBL HTTP ${res.status}`, {
+      url,
+      status: res.status,
+    });
+  }
+  return res.text();
+}
+
+// 去除 &nbsp; 與前後空白
+export const clean = (s: string) => (s || '').replace(/\u00a0/g, '').trim();
+
+// 文字轉數字；空字串或無法解析時回傳 null
+export function toNum(s: string): number | null {
+  if (!s) return null;
+  const n = Number(s.replace(/,/g, ''));
+  return Number.isFinite(n) ? n : null;
+}
+
+export type Cheerio = ReturnType<cheerio.CheerioAPI>;
+
+// 讀表頭（去除空白），並提供依關鍵字找欄位的 helper；找不到時 cell() 回傳空字串
+// 關鍵字先找完全相同的表頭，再找包含的（避免「盜壘」對到「盜壘刺」、「安打」對到「一壘安打」）
+export function readTable($: cheerio.CheerioAPI, table: Cheerio) {
+  const headers = table
+    .find('tr')
+    .first()
+    .children('th,td')
+    .map((_, th) => $(th).text().replace(/\s/g, ''))
+    .get();
+  const col = (...kws: string[]) => {
+    const exact = headers.findIndex((h) => kws.includes(h));
+    return exact >= 0
+      ? exact
+      : headers.findIndex((h) => kws.some((kw) => h.includes(kw)));
+  };
+  const rows = table
+    .find('tr')
+    .slice(1)
+    .map((_, tr) => [$(tr).children('td,th')])
+    .get() as Cheerio[];
+  const cell = (cells: Cheerio, i: number) =>
+    i >= 0 ? clean(cells.eq(i).text()) : '';
+  return { headers, col, rows, cell };
+}
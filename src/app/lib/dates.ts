@@ -0,0 +1,20 @@
+// 日期工具（前後端共用）：比賽日、快照日期一律以台灣時間為準（YYYY-MM-DD）
+
+export function taipeiDate(d = new Date()) {
+  return d.toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
+}
+
+// 是否為有效的 YYYY-MM-DD
+export function isDateString(s: string | null | undefined): s is string {
+  return !!s && /^\d{4}-\d{2}-\d{2}$/.test(s) && !isNaN(Date.parse(s));
+}
+
+// 台灣時間當天 00:00 的 epoch ms
+export function taipeiDayStart(date: string) {
+  return Date.parse(`${date}T00:00:00+08:00`);
+}
+
+// YYYY-MM-DD 往後（負數往前）推 n 天
+export function addDays(date: string, n: number) {
+  return taipeiDate(new Date(taipeiDayStart(date) + n * 86400000));
+}
@@ -0,0 +1,233 @@
+// 精華訂閱：Atom / RSS 2.0 與 iCalendar（.ics）輸出（僅供伺服端使用）
+import { gamePath } from './games';
+import { videoDate, type Video } from './highlights';
+import {
+  parseHighlightFilter,
+  searchHighlights,
+  type HighlightFilter,
+} from './highlightSearch';
+import {
+  DEFAULT_LOCALE,
+  createTranslator,
+  isLocale,
+  localTeamName,
+  teamName,
+  type Locale,
+} from './i18n';
+import { getTeam } from './teams';
+
+// 每個 feed 最多收錄的影片數
+export const FEED_SIZE = 50;
+
+// feed 的篩選條件與 /api/highlights 相同；沒指定時間窗時不限天數，直接取最新 FEED_SIZE 支
+export function parseFeedFilter(
+  params: URLSearchParams
+): HighlightFilter | string {
+  const p = new URLSearchParams(params);
+  if (!p.has('days')) p.set('days', '0');
+  return parseHighlightFilter(p);
+}
+
+export async function feedVideos(filter: HighlightFilter) {
+  return (await searchHighlights(filter, { limit: FEED_SIZE })).items;
+}
+
+// feed 的語系：訂閱器不帶 cookie，由 lang 參數指定（預設 zh-TW），CDN 快取也才不會混到別的語系
+export function feedLocale(params: URLSearchParams): Locale {
+  const lang = params.get('lang');
+  return isLocale(lang) ? lang : DEFAULT_LOCALE;
+}
+
+// feed 標題：影片類型，有選球隊時附上隊名
+export function feedTitle(filter: HighlightFilter, locale: Locale) {
+  const t = createTranslator(locale);
+  const title = `CPBL ${t(`type.${filter.type}`)}`;
+  const names = filter.teams.map((id) => teamName(getTeam(id)!, locale));
+  return names.length ? `${title}｜${names.join(' vs ')}` : title;
+}
+
+const watchUrl = (v: Video) => `https://www.youtube.com/watch?v=${v.id}`;
+
+// 站內單場頁（標題解析得出日期與兩隊時才有）
+function gameUrl(v: Video, origin: string) {
+  const date = videoDate(v);
+  return date && v.awayTeamId && v.homeTeamId
+    ? `${origin}${gamePath(date, v.awayTeamId, v.homeTeamId)}`
+    : null;
+}
+
+// 一行摘要，例如「2025-06-14 中信兄弟 3:5 統一7-ELEVEn獅」；隊名依語系
+export function videoSummary(v: Video, locale: Locale = DEFAULT_LOCALE) {
+  const date = videoDate(v);
+  if (!v.awayTeam || !v.homeTeam) return [date, v.title].join(' ').trim();
+  const score = v.score ? `${v.score.away}:${v.score.home}` : 'vs';
+  const away = localTeamName(v.awayTeam, locale);
+  const home = localTeamName(v.homeTeam, locale);
+  return [date, away, score, home].join(' ').trim();
+}
+
+const escapeXml = (s: string) =>
+  s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+type FeedMeta = {
+  title: string;
+  selfUrl: string;
+  siteUrl: string;
+  origin: string;
+  locale: Locale; // 摘要裡的隊名語系
+};
+
+export function buildAtom(videos: Video[], meta: FeedMeta) {
+  const updated = videos[0]?.publishedAt || new Date().toISOString();
+  const entries = videos.map((v) => {
+    const game = gameUrl(v, meta.origin);
+    return [
+      '  <entry>',
+      `    <id>yt:video:${escapeXml(v.id)}</id>`,
+      `    <title>${escapeXml(v.title)}</title>`,
+      `    <link rel="alternate" href="${escapeXml(watchUrl(v))}"/>`,
+      game ? `    <link rel="related" href="${escapeXml(game)}"/>` : '',
+      `    <published>${escapeXml(v.publishedAt)}</published>`,
+      `    <updated>${escapeXml(v.publishedAt)}</updated>`,
+      `    <author><name>${escapeXml(v.channelTitle)}</name></author>`,
+      `    <summary>${escapeXml(videoSummary(v, meta.locale))}</summary>`,
+      v.thumbnail
+        ? `    <media:thumbnail url="${escapeXml(v.thumbnail)}"/>`
+        : '',
+      '  </entry>',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/">',
+    `  <id>${escapeXml(meta.selfUrl)}</id>`,
+    `  <title>${escapeXml(meta.title)}</title>`,
+    `  <updated>${escapeXml(updated)}</updated>`,
+    `  <link rel="self" href="${escapeXml(meta.selfUrl)}"/>`,
+    `  <link rel="alternate" href="${escapeXml(meta.siteUrl)}"/>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+export function buildRss(videos: Video[], meta: FeedMeta) {
+  const items = videos.map((v) => {
+    const game = gameUrl(v, meta.origin);
+    return [
+      '    <item>',
+      `      <title>${escapeXml(v.title)}</title>`,
+      `      <link>${escapeXml(watchUrl(v))}</link>`,
+      `      <guid isPermaLink="false">yt:video:${escapeXml(v.id)}</guid>`,
+      `      <pubDate>${new Date(v.publishedAt).toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(
+        [videoSummary(v, meta.locale), game].filter(Boolean).join('\n')
+      )}</description>`,
+      v.thumbnail
+        ? `      <media:thumbnail url="${escapeXml(v.thumbnail)}"/>`
+        : '',
+      '    </item>',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/">',
+    '  <channel>',
+    `    <title>${escapeXml(meta.title)}</title>`,
+    `    <link>${escapeXml(meta.siteUrl)}</link>`,
+    `    <description>${escapeXml(meta.title)}</description>`,
+    `    <atom:link rel="self" href="${escapeXml(
+      meta.selfUrl
+    )}" type="application/rss+xml"/>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+// iCalendar 文字跳脫（RFC 5545 3.3.11）
+const escapeIcs = (s: string) =>
+  s
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// 每行最多 75 bytes，超過的部分以「CRLF + 空白」折行（不切斷多位元組字元）
+function foldIcsLine(line: string) {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let cur = '';
+  let bytes = 0;
+  for (const ch of line) {
+    const n = encoder.encode(ch).length;
+    if (bytes + n > 75) {
+      parts.push(cur);
+      cur = ' ';
+      bytes = 1;
+    }
+    cur += ch;
+    bytes += n;
+  }
+  parts.push(cur);
+  return parts.join('\r\n');
+}
+
+const icsDate = (date: string) => date.replace(/-/g, '');
+const icsStamp = (iso: string) =>
+  new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+// 隔天（全天事件的 DTEND 不含當天）
+function nextDay(date: string) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+// 每支精華一個全天事件，日期為比賽日；沒有日期的影片略過
+export function buildIcs(
+  videos: Video[],
+  meta: { title: string; origin: string; locale: Locale }
+) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//cpbl-highlights//highlights//ZH-TW',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcs(meta.title)}`,
+    'X-WR-TIMEZONE:Asia/Taipei',
+  ];
+  for (const v of videos) {
+    const date = videoDate(v);
+    if (!date) continue;
+    const game = gameUrl(v, meta.origin);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${v.id}@cpbl-highlights`,
+      `DTSTAMP:${icsStamp(v.publishedAt || new Date().toISOString())}`,
+      `DTSTART;VALUE=DATE:${icsDate(date)}`,
+      `DTEND;VALUE=DATE:${icsDate(nextDay(date))}`,
+      `SUMMARY:${escapeIcs(v.title)}`,
+      `DESCRIPTION:${escapeIcs(
+        [videoSummary(v, meta.locale), watchUrl(v), game]
+          .filter(Boolean)
+          .join('\n')
+      )}`,
+      `URL:${watchUrl(v)}`,
+      'END:VEVENT'
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
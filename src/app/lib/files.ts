@@ -0,0 +1,18 @@
+// data/ 下本機資料檔（精華索引、戰績歷史、通知狀態）的共用寫入（僅供伺服端使用）
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// 先寫暫存檔再改名，避免讀到寫一半的檔案；
+// 暫存檔名帶 pid 與亂數，同時有多個請求/行程在寫也不會互相覆蓋暫存檔或改名失敗
+export async function writeFileAtomic(file: string, data: string) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  try {
+    await fs.writeFile(tmp, data);
+    await fs.rename(tmp, file);
+  } catch (e) {
+    await fs.rm(tmp, { force: true });
+    throw e;
+  }
+}
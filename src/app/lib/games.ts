@@ -0,0 +1,96 @@
+// 賽程與單場比賽的共用型別（路由、頁面與前端元件共用）
+import type { GameScore } from './highlights';
+import { isTeamId, type TeamId } from './teams';
+
+// scheduled 未開打、live 比賽中、final 比賽結束、postponed 延賽/保留
+export type GameStatus = 'scheduled' | 'live' | 'final' | 'postponed';
+
+export type Game = {
+  gameNo: number | null;
+  date: string; // YYYY-MM-DD（台灣時間）
+  time: string; // HH:mm，未公布時為空字串
+  venue: string;
+  awayTeam: string;
+  awayTeamId: TeamId | null;
+  homeTeam: string;
+  homeTeamId: TeamId | null;
+  score: GameScore | null;
+  status: GameStatus;
+  statusText: string; // 官網原文，例如「7局下」「比賽結束」
+  boxUrl?: string;
+  highlightId: string | null; // 播放清單已有全場精華時的影片 id
+};
+
+// GET /api/schedule 回應
+export type ScheduleResponse = {
+  source: string;
+  date: string;
+  updatedAt: string;
+  games: Game[];
+};
+
+// 單場頁網址：/game/2025-06-14/brothers-lions（客隊在前、主隊在後）
+export function gamePath(date: string, awayTeamId: TeamId, homeTeamId: TeamId) {
+  return `/game/${date}/${awayTeamId}-${homeTeamId}`;
+}
+
+// 解析單場頁網址的對戰段；格式不符時回傳 null
+export function parseMatchup(
+  matchup: string
+): { awayTeamId: TeamId; homeTeamId: TeamId } | null {
+  const [away, home, ...rest] = matchup.split('-');
+  if (rest.length || !isTeamId(away) || !isTeamId(home) || away === home) {
+    return null;
+  }
+  return { awayTeamId: away, homeTeamId: home };
+}
+
+// 逐局比分：innings 依局數排列，未打的半局（例如主隊領先的九局下）為 null
+export type LineScore = {
+  team: string;
+  teamId: TeamId | null;
+  innings: (number | null)[];
+  runs: number | null;
+  hits: number | null;
+  errors: number | null;
+};
+
+export type BattingLine = {
+  name: string;
+  position: string;
+  ab: number | null;
+  runs: number | null;
+  hits: number | null;
+  rbi: number | null;
+  bb: number | null;
+  so: number | null;
+  avg: string;
+};
+
+export type PitchingLine = {
+  name: string;
+  ip: string; // 官網格式，例如 "6.1"
+  hits: number | null;
+  runs: number | null;
+  er: number | null;
+  bb: number | null;
+  so: number | null;
+  era: string;
+};
+
+// 勝投 / 敗投 / 救援 / 中繼，沒有時為 null
+export type PitchingDecisions = {
+  win: string | null;
+  loss: string | null;
+  save: string | null;
+  hold: string | null;
+};
+
+// 官網 box 頁解析結果；batting/pitching 依 [客隊, 主隊]
+export type BoxScore = {
+  source: string;
+  lineScore: [LineScore, LineScore];
+  batting: [BattingLine[], BattingLine[]];
+  pitching: [PitchingLine[], PitchingLine[]];
+  decisions: PitchingDecisions;
+};
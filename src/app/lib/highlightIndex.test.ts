@@ -0,0 +1,74 @@
+import { mkdtemp, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { readIndex, syncIndex } from './highlightIndex';
+import { fixtureFetch, setUpstreamFetch } from './upstream';
+import { fetchPlaylistPage, playlistCache, toVideo } from './youtube';
+
+describe('syncIndex', () => {
+  let file: string;
+
+  beforeEach(async () => {
+    file = path.join(await mkdtemp(path.join(tmpdir(), 'index-')), 'i.json');
+    playlistCache.clear();
+    setUpstreamFetch(fixtureFetch('fixtures'));
+  });
+  afterEach(() => setUpstreamFetch(null));
+
+  it('indexes the recorded playlist and adds nothing on the next run', async () => {
+    const first = await syncIndex({ file });
+    // 第二頁的 Deleted video 不收錄
+    expect(first).toEqual({ added: 5, total: 5, pages: 2 });
+
+    const index = await readIndex(file);
+    expect(index?.complete).toBe(true);
+    expect(index?.videos.map((v) => v.gameNo)).toEqual([
+      121, 122, 120, 119, 118,
+    ]);
+    expect(index?.videos[4]).toMatchObject({
+      id: 'fx000000005',
+      title: '【全場精華】06/12 味全龍 vs 中信兄弟｜G118',
+      awayTeam: '味全龍',
+      homeTeam: '中信兄弟',
+      awayTeamId: 'dragons',
+      homeTeamId: 'brothers',
+      gameDate: '2025-06-12',
+      gameNo: 118,
+      score: null,
+    });
+
+    const before = await readFile(file, 'utf8');
+    const second = await syncIndex({ file });
+    // 第一頁全是已收錄的影片，看完就停，索引檔不重寫
+    expect(second).toEqual({ added: 0, total: 5, pages: 1 });
+    expect(await readFile(file, 'utf8')).toBe(before);
+  });
+
+  it('only adds videos published since the last run', async () => {
+    await syncIndex({ file });
+
+    const newer = toVideo({
+      snippet: {
+        title: '【全場精華】06/15 富邦悍將 vs 中信兄弟｜G124',
+        resourceId: { videoId: 'fx000000006' },
+      },
+      contentDetails: { videoPublishedAt: '2025-06-15T14:00:00Z' },
+    });
+    const result = await syncIndex({
+      file,
+      fetchPage: async (token) => {
+        const page = await fetchPlaylistPage(token);
+        return token ? page : { ...page, items: [newer, ...page.items] };
+      },
+    });
+    expect(result).toEqual({ added: 1, total: 6, pages: 1 });
+
+    const index = await readIndex(file);
+    expect(index?.videos[0]).toMatchObject({
+      id: 'fx000000006',
+      gameDate: '2025-06-15',
+      homeTeamId: 'brothers',
+    });
+  });
+});
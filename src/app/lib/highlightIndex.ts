@@ -0,0 +1,137 @@
+// 本地精華索引：把播放清單的 Video 存成 JSON 檔，API 直接從索引搜尋/分頁，不必每次打 YouTube
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DEFAULT_CONTENT_TYPE, type ContentTypeId } from './contentTypes';
+import { writeFileAtomic } from './files';
+import type { Video } from './highlights';
+import { getSource, matchesSource } from './sources';
+import { isUpstreamStubbed } from './upstream';
+import {
+  FULLGAME_PLAYLIST_ID,
+  fetchPlaylistPage,
+  type PlaylistPage,
+} from './youtube';
+
+export type HighlightIndex = {
+  playlistId: string;
+  syncedAt: string;
+  // 是否曾完整走完播放清單；中斷過的首次同步下次會繼續走完
+  complete: boolean;
+  videos: Video[]; // 依 publishedAt 新到舊
+};
+
+// 索引檔位置：可用 HIGHLIGHTS_INDEX_PATH 覆寫；全場精華以外的類型各自一個檔，例如 highlights-index-topplays.json
+export function indexPath(type: ContentTypeId = DEFAULT_CONTENT_TYPE) {
+  const file =
+    process.env.HIGHLIGHTS_INDEX_PATH ??
+    path.join(process.cwd(), 'data', 'highlights-index.json');
+  return type === DEFAULT_CONTENT_TYPE
+    ? file
+    : file.replace(/(\.json)?$/, `-${type}$1`);
+}
+
+// 讀取索引；檔案不存在時回傳 null（呼叫端改走即時 YouTube）
+export async function readIndex(file = indexPath()) {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as HighlightIndex;
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return null;
+    throw e;
+  }
+}
+
+export async function writeIndex(index: HighlightIndex, file = indexPath()) {
+  await writeFileAtomic(file, JSON.stringify(index, null, 2));
+}
+
+const newestFirst = (a: Video, b: Video) =>
+  (Date.parse(b.publishedAt) || 0) - (Date.parse(a.publishedAt) || 0);
+
+export type SyncResult = {
+  added: number;
+  total: number;
+  pages: number;
+};
+
+// 增量同步：新片在播放清單最前面，一旦某頁出現已收錄的影片就停止；重複執行不會產生重複資料
+// 來源改成別的播放清單時，舊索引作廢、從頭建立
+export async function syncIndex({
+  playlistId = FULLGAME_PLAYLIST_ID,
+  fetchPage = (token) => fetchPlaylistPage(token, { playlistId }),
+  file = indexPath(),
+}: {
+  playlistId?: string;
+  fetchPage?: (pageToken: string | null) => Promise<PlaylistPage>;
+  file?: string;
+} = {}): Promise<SyncResult> {
+  const existing = await readIndex(file);
+  const index: HighlightIndex =
+    existing?.playlistId === playlistId
+      ? existing
+      : { playlistId, syncedAt: '', complete: false, videos: [] };
+  const known = new Set(index.videos.map((v) => v.id));
+  const fresh: Video[] = [];
+
+  let pageToken: string | null = null;
+  let pages = 0;
+  let complete = index.complete;
+
+  const save = () =>
+    writeIndex(
+      {
+        playlistId: index.playlistId,
+        syncedAt: new Date().toISOString(),
+        complete,
+        videos: [...fresh, ...index.videos].sort(newestFirst),
+      },
+      file
+    );
+
+  try {
+    do {
+      const page: PlaylistPage = await fetchPage(pageToken);
+      pages++;
+
+      const newOnes = page.items.filter((v) => v.id && !known.has(v.id));
+      newOnes.forEach((v) => known.add(v.id));
+      fresh.push(...newOnes);
+
+      if (index.complete && newOnes.length < page.items.length) break;
+
+      pageToken = page.nextPageToken;
+      if (!pageToken) complete = true;
+    } while (pageToken);
+  } catch (e) {
+    // 中途失敗：先保存已抓到的部分，並標記為未完成，下次會重新走完整個清單補齊
+    if (fresh.length) {
+      complete = false;
+      await save();
+    }
+    throw e;
+  }
+
+  if (fresh.length || complete !== index.complete || !index.syncedAt) {
+    await save();
+  }
+
+  return { added: fresh.length, total: known.size, pages };
+}
+
+// 用來對應單場比賽的影片：優先用本地索引，沒有索引時只看播放清單第一頁（最新 50 支）
+// 找不到精華不影響賽程/單場頁本身，任何錯誤都回傳空陣列
+export async function highlightCandidates(): Promise<Video[]> {
+  try {
+    const source = await getSource(DEFAULT_CONTENT_TYPE);
+    const index = await readIndex(indexPath(source.type));
+    if (index?.playlistId === source.playlistId) {
+      return index.videos.filter((v) => matchesSource(source, v));
+    }
+    if (!process.env.YOUTUBE_API_KEY && !isUpstreamStubbed()) return [];
+    const page = await fetchPlaylistPage(null, {
+      playlistId: source.playlistId,
+    });
+    return page.items.filter((v) => matchesSource(source, v));
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,414 @@
+// 精華搜尋：查詢參數解析、時間窗/標題/球隊篩選，以及本地索引或 YouTube 播放清單的分頁掃描
+// （/api/highlights 與 RSS/Atom、iCal feed 共用，僅供伺服端使用）
+import {
+  DEFAULT_CONTENT_TYPE,
+  isContentType,
+  type ContentTypeId,
+} from './contentTypes';
+import { isDateString, taipeiDayStart } from './dates';
+import {
+  MAX_RANKED_VIDEOS,
+  videoDate,
+  videoMatchesTeams,
+  type HighlightSort,
+  type HighlightsResponse,
+  type Video,
+} from './highlights';
+import { indexPath, readIndex, type HighlightIndex } from './highlightIndex';
+import { QuotaExhaustedError } from './quota';
+import {
+  SourceNotConfiguredError,
+  getSource,
+  matchesSource,
+  type HighlightSource,
+} from './sources';
+import { isTeamId, resolveTeam, type TeamId } from './teams';
+import { createTtlCache } from './ttlCache';
+import { isUpstreamStubbed } from './upstream';
+import {
+  YouTubeError,
+  enrichVideos,
+  fetchPlaylistPage,
+  type PlaylistPage,
+} from './youtube';
+
+// 即時模式下單次請求最多掃描的 YouTube 頁數
+const MAX_UPSTREAM_PAGES = 5;
+
+// 分頁游標：即時模式為 YouTube 的 pageToken（第一頁為 null）+ 該頁已處理到的位置；
+// 索引模式 pageToken 固定為 null，offset 為索引中的位置
+export type Cursor = { pageToken: string | null; offset: number };
+export const START: Cursor = { pageToken: null, offset: 0 };
+
+// 游標編碼成 base64url，前端只需原樣帶回
+export function encodeCursor(c: Cursor) {
+  return btoa(JSON.stringify([c.pageToken, c.offset]))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function decodeCursor(s: string): Cursor | null {
+  try {
+    const [pageToken, offset] = JSON.parse(
+      atob(s.replace(/-/g, '+').replace(/_/g, '/'))
+    );
+    if (pageToken !== null && typeof pageToken !== 'string') return null;
+    if (!Number.isInteger(offset) || offset < 0) return null;
+    return { pageToken, offset };
+  } catch {
+    return null;
+  }
+}
+
+// 搜尋條件（已正規化：關鍵字、mustAll 皆為小寫）
+export type HighlightFilter = {
+  type: ContentTypeId;
+  keywords: string[];
+  terms: string[];
+  mustAll: string[];
+  teams: TeamId[];
+  from: string | null;
+  to: string | null;
+  days: number;
+};
+
+// 解析 type / q / mustAll / team / from / to / days；不合法時回傳錯誤訊息字串
+export function parseHighlightFilter(
+  params: URLSearchParams
+): HighlightFilter | string {
+  // type：影片類型（全場精華、好球精選…），決定要掃哪個播放清單
+  const type = params.get('type') ?? DEFAULT_CONTENT_TYPE;
+  if (!isContentType(type)) return `Invalid type: ${type}`;
+
+  // from / to：比賽日期區間（YYYY-MM-DD，含頭尾），指定時取代 days
+  const from = params.get('from');
+  const to = params.get('to');
+  if (from !== null && !isDateString(from)) return `Invalid from: ${from}`;
+  if (to !== null && !isDateString(to)) return `Invalid to: ${to}`;
+  if (from && to && from > to) return 'from must be <= to';
+
+  // days：時間窗（天），預設 30；0 代表不限制。有 from/to 時不使用
+  const daysIn = Number(params.get('days') ?? 30);
+  const days =
+    from || to ? 0 : Number.isFinite(daysIn) ? Math.max(0, daysIn) : 30;
+
+  // q：關鍵字搜尋，以空白分隔，所有詞都必須出現在標題
+  // 類型本身的標題條件（例如「全場精華」）由來源設定提供，不必再帶在 q 裡
+  const keywords = params.getAll('q');
+  const terms = keywords
+    .flatMap((q) => q.split(/\s+/))
+    .map((s) => s.toLowerCase())
+    .filter(Boolean);
+
+  // mustAll：標題 AND 篩選條件，後端過濾，降低前端無效資料
+  const mustAll = params
+    .getAll('mustAll')
+    .map((s) => s.toLowerCase())
+    .filter(Boolean);
+
+  // team：球隊 id 或隊名/別名（可重複，兩隊即對戰組合），透過別名比對標題
+  const teams: TeamId[] = [];
+  for (const name of params.getAll('team')) {
+    const id = isTeamId(name) ? name : resolveTeam(name);
+    if (!id) return `Invalid team: ${name}`;
+    if (!teams.includes(id)) teams.push(id);
+  }
+
+  return { type, keywords, terms, mustAll, teams, from, to, days };
+}
+
+type Scan = {
+  playlistId: string;
+  cursor: Cursor;
+  limit: number;
+  // 是否落在查詢的日期區間內（晚於迄日的影片略過，但要繼續往後掃）
+  inWindow: (v: Video) => boolean;
+  // 是否已早於起日：清單依上架時間新到舊，之後只會更舊，可以停止掃描
+  pastWindow: (v: Video) => boolean;
+  matches: (v: Video) => boolean;
+};
+
+type ScanResult = {
+  items: Video[];
+  nextCursor: Cursor | null;
+  upstreamPages: number;
+};
+
+// 索引模式：索引已依時間新到舊排好，遇到第一支超出時間窗的影片就停止
+function scanIndex(
+  index: HighlightIndex,
+  { cursor, limit, inWindow, pastWindow, matches }: Scan
+): ScanResult {
+  // 即時模式留下的游標（pageToken 不為 null）在索引中沒有意義，從頭開始
+  const start = cursor.pageToken === null ? cursor.offset : 0;
+  const items: Video[] = [];
+  let nextCursor: Cursor | null = null;
+
+  for (let i = start; i < index.videos.length; i++) {
+    const v = index.videos[i];
+    if (pastWindow(v)) break;
+    if (!inWindow(v) || !matches(v)) continue;
+    items.push(v);
+    if (items.length >= limit) {
+      if (i + 1 < index.videos.length)
+        nextCursor = { pageToken: null, offset: i + 1 };
+      break;
+    }
+  }
+  return { items, nextCursor, upstreamPages: 0 };
+}
+
+// 即時模式：連續往下抓 YouTube 分頁，直到湊滿 limit 筆、整頁都超過時間窗、或到達單次上限
+async function scanPlaylist({
+  playlistId,
+  cursor,
+  limit,
+  inWindow,
+  pastWindow,
+  matches,
+}: Scan): Promise<ScanResult> {
+  const items: Video[] = [];
+  let nextCursor: Cursor | null = null;
+  let pageToken = cursor.pageToken;
+  let offset = cursor.offset;
+  let upstreamPages = 0;
+
+  for (;;) {
+    let page: PlaylistPage;
+    try {
+      page = await fetchPlaylistPage(pageToken, { playlistId });
+    } catch (e) {
+      // 配額用完：已經湊到的先回傳，游標停在這頁，之後還能接著載
+      if (!(e instanceof QuotaExhaustedError) || !items.length) throw e;
+      nextCursor = { pageToken, offset };
+      break;
+    }
+    upstreamPages++;
+
+    for (let i = offset; i < page.items.length; i++) {
+      const v = page.items[i];
+      if (!inWindow(v) || !matches(v)) continue;
+      items.push(v);
+      if (items.length >= limit) {
+        // 下一次從這頁的下一筆接著掃；剛好掃完整頁就直接跳到下一頁
+        nextCursor =
+          i + 1 < page.items.length
+            ? { pageToken, offset: i + 1 }
+            : page.nextPageToken
+            ? { pageToken: page.nextPageToken, offset: 0 }
+            : null;
+        break;
+      }
+    }
+    if (items.length >= limit) break;
+
+    // 整頁都早於時間窗：後面只會更舊，停止掃描
+    const reachedCutoff = page.items.length > 0 && page.items.every(pastWindow);
+    if (reachedCutoff || !page.nextPageToken) break;
+
+    pageToken = page.nextPageToken;
+    offset = 0;
+
+    // 單次請求最多掃 MAX_UPSTREAM_PAGES 頁，避免一次耗掉太多配額；剩下的交給下一個游標
+    if (upstreamPages >= MAX_UPSTREAM_PAGES) {
+      nextCursor = { pageToken, offset: 0 };
+      break;
+    }
+  }
+  return { items, nextCursor, upstreamPages };
+}
+
+// 沒有本地索引、也沒有 API 金鑰時丟出
+export class MissingApiKeyError extends Error {
+  constructor() {
+    super('Missing YOUTUBE_API_KEY');
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+// 搜尋錯誤對應的 HTTP 狀態碼（/api/highlights、feed 路由與首頁共用）；
+// 不是這幾種錯誤時回傳 null，由呼叫端照常丟出
+export function highlightErrorStatus(e: unknown): number | null {
+  if (e instanceof MissingApiKeyError) return 500;
+  if (e instanceof SourceNotConfiguredError) return 404;
+  if (e instanceof QuotaExhaustedError) return 503;
+  if (e instanceof YouTubeError) return 502;
+  return null;
+}
+
+export type SearchResult = ScanResult & {
+  source: HighlightSource;
+  // 有本地索引時為索引內容，否則為 null（即時打 YouTube）
+  index: HighlightIndex | null;
+  cutoffMs: number;
+};
+
+// 依條件搜尋一頁精華；類型沒有設定來源時丟出 SourceNotConfiguredError，
+// 配額用完且沒有快取時丟出 QuotaExhaustedError，YouTube 回應非 2xx 時丟出 YouTubeError
+export async function searchHighlights(
+  filter: HighlightFilter,
+  { limit, cursor = START }: { limit: number; cursor?: Cursor }
+): Promise<SearchResult> {
+  const { terms, mustAll, teams, from, to, days } = filter;
+  const source = await getSource(filter.type);
+  const cutoffMs = from
+    ? taipeiDayStart(from)
+    : days > 0
+    ? Date.now() - days * 86400000
+    : 0;
+
+  // 依時間窗判斷（playlistItems 不支援 publishedAfter，因此在後端自行判斷）
+  // 停止掃描看上架時間；區間比對看比賽日期（隔天才上架的精華仍算在比賽當天）
+  const pastWindow = (v: Video) => {
+    if (!cutoffMs) return false;
+    const t = Date.parse(v.publishedAt);
+    return Number.isFinite(t) ? t < cutoffMs : false;
+  };
+  const inWindow = (v: Video) => {
+    if (!from && !to) return !pastWindow(v);
+    const d = videoDate(v);
+    if (!d) return false;
+    return (!from || d >= from) && (!to || d <= to);
+  };
+
+  const matches = (v: Video) => {
+    // 標題 AND 過濾（所有關鍵字、mustAll 與來源的標題條件都必須包含）
+    const t = (v.title || '').toLowerCase();
+    if (!terms.every((m) => t.includes(m))) return false;
+    if (!mustAll.every((m) => t.includes(m))) return false;
+    if (!matchesSource(source, v)) return false;
+    // 球隊 AND 過濾（所有 team 都必須出現在這場比賽）
+    return videoMatchesTeams(v, teams);
+  };
+
+  // 有本地索引（由 npm run sync:highlights 產生）就直接用索引，否則即時打 YouTube
+  // 索引對應的播放清單與目前設定不同時（來源改過、還沒重新同步）不使用
+  const stored = await readIndex(indexPath(source.type));
+  const index = stored?.playlistId === source.playlistId ? stored : null;
+  if (!index && !process.env.YOUTUBE_API_KEY && !isUpstreamStubbed()) {
+    throw new MissingApiKeyError();
+  }
+
+  const scan = {
+    playlistId: source.playlistId,
+    cursor,
+    limit,
+    inWindow,
+    pastWindow,
+    matches,
+  };
+  const result = index ? scanIndex(index, scan) : await scanPlaylist(scan);
+  return { ...result, source, index, cutoffMs };
+}
+
+// 觀看數多到少；沒有觀看數（補充資訊失敗）的排最後
+const byViews = (a: Video, b: Video) =>
+  (b.details?.viewCount ?? -1) - (a.details?.viewCount ?? -1);
+
+// 排好的名單保留 5 分鐘，同一組條件往下翻頁都從這份名單切，不重新掃描與補資訊
+const RANKING_CACHE_TTL_MS = 5 * 60 * 1000;
+
+type Ranking = SearchResult & {
+  // 時間窗內符合的影片超過 MAX_RANKED_VIDEOS 支（或即時模式掃到頁數上限），只排了最新的一部分
+  truncated: boolean;
+};
+
+export const rankingCache = createTtlCache<Ranking>({
+  ttlMs: RANKING_CACHE_TTL_MS,
+  maxEntries: 50,
+});
+
+// 依觀看數排序：觀看數要補上詳細資訊才知道，因此先取出時間窗內最新的 MAX_RANKED_VIDEOS 支
+// （即時模式最多掃 MAX_UPSTREAM_PAGES 頁）補上資訊並排好，再依游標位置切出一頁；
+// 回傳的 items 已經補過資訊
+async function searchByViews(
+  filter: HighlightFilter,
+  { limit, cursor }: { limit: number; cursor: Cursor }
+): Promise<SearchResult & { ranked: number; truncated: boolean }> {
+  const ranking = await rankingCache.get(JSON.stringify(filter), async () => {
+    // 多取一支：有拿到第 MAX_RANKED_VIDEOS + 1 支（或掃描被截斷）就代表名單不完整
+    const all = await searchHighlights(filter, {
+      limit: MAX_RANKED_VIDEOS + 1,
+    });
+    const items = await enrichVideos(all.items.slice(0, MAX_RANKED_VIDEOS));
+    return {
+      ...all,
+      items: items.sort(byViews),
+      truncated: all.nextCursor !== null,
+    };
+  });
+  const start = cursor.pageToken === null ? cursor.offset : 0;
+  const end = start + limit;
+  return {
+    ...ranking,
+    items: ranking.items.slice(start, end),
+    nextCursor:
+      end < ranking.items.length ? { pageToken: null, offset: end } : null,
+    ranked: ranking.items.length,
+  };
+}
+
+export type HighlightsPage = HighlightsResponse & {
+  debug: Record<string, unknown>;
+};
+
+// 依 /api/highlights 的查詢參數取一頁結果（路由與首頁的伺服端渲染共用）；
+// 參數不合法時回傳錯誤訊息字串，其他錯誤照 searchHighlights 丟出，由呼叫端決定怎麼處理
+export async function loadHighlightsPage(
+  params: URLSearchParams
+): Promise<HighlightsPage | string> {
+  // limit：每頁回傳數量，預設 24，超出 1～50 時取最接近的值；不是整數時視為不合法
+  const limitIn = params.get('limit');
+  const limitNum = limitIn === null ? 24 : Number(limitIn);
+  if (!Number.isInteger(limitNum)) return `Invalid limit: ${limitIn}`;
+  const limit = Math.max(1, Math.min(50, limitNum));
+
+  // sort：latest（預設，依上架時間新到舊）或 views（整個時間窗依觀看數排序後再分頁）
+  const sort = params.get('sort') ?? 'latest';
+  if (sort !== 'latest' && sort !== 'views') return `Invalid sort: ${sort}`;
+
+  // type / q / mustAll / team / from / to / days
+  const filter = parseHighlightFilter(params);
+  if (typeof filter === 'string') return filter;
+
+  // 本 API 自己的分頁游標（不透明字串）
+  const cursorIn = params.get('cursor');
+  const cursor = cursorIn ? decodeCursor(cursorIn) : START;
+  if (!cursor) return 'Invalid cursor';
+
+  const ranking =
+    sort === 'views' ? await searchByViews(filter, { limit, cursor }) : null;
+  const result = ranking ?? (await searchHighlights(filter, { limit, cursor }));
+  const { nextCursor, upstreamPages, source, index, cutoffMs } = result;
+
+  // 補上長度、觀看數等資訊，並移除已刪除/轉為私人的影片（依觀看數排序時已經補過）
+  const items = ranking ? ranking.items : await enrichVideos(result.items);
+
+  // 組裝回應（包含 debug 方便前端檢視參數與來源）
+  return {
+    items,
+    count: items.length,
+    nextCursor: nextCursor ? encodeCursor(nextCursor) : null,
+    ...(ranking && { truncated: ranking.truncated }),
+    debug: {
+      type: source.type,
+      source: index ? 'local-index' : 'youtube-playlist',
+      playlistIdUsed: source.playlistId,
+      indexSyncedAt: index?.syncedAt ?? null,
+      limit,
+      sort,
+      // 依觀看數排序時參與排名的影片數
+      ranked: ranking?.ranked ?? null,
+      keywords: filter.keywords,
+      days: filter.days,
+      from: filter.from,
+      to: filter.to,
+      teams: filter.teams,
+      publishedAfterISO: cutoffMs ? new Date(cutoffMs).toISOString() : null,
+      cursor,
+      upstreamPages,
+      enriched: items.some((v) => v.details),
+    },
+  };
+}
@@ -0,0 +1,175 @@
+// /api/highlights 的共用型別與篩選（路由與前端元件共用）
+import { DEFAULT_CONTENT_TYPE, type ContentTypeId } from './contentTypes';
+import { taipeiDate } from './dates';
+import { findTeams, type TeamId } from './teams';
+
+// 比數：依標題隊伍順序（客隊在前、主隊在後）
+export type GameScore = {
+  away: number;
+  home: number;
+};
+
+// 從標題解析出的比賽資訊；解析不到的欄位為 null
+export type GameMeta = {
+  awayTeam: string | null;
+  homeTeam: string | null;
+  awayTeamId: TeamId | null;
+  homeTeamId: TeamId | null;
+  score: GameScore | null;
+  gameDate: string | null; // YYYY-MM-DD
+  gameNo: number | null;
+};
+
+// 直播狀態：none＝一般影片，completed＝直播結束後留下的影片
+export type LiveStatus = 'none' | 'upcoming' | 'live' | 'completed';
+
+// videos.list 補上的資訊；統計數字被頻道隱藏時為 null
+export type VideoDetails = {
+  durationSec: number | null;
+  viewCount: number | null;
+  likeCount: number | null;
+  privacy: 'public' | 'unlisted';
+  live: LiveStatus;
+};
+
+// 回傳給前端的影片物件型別
+export type Video = {
+  id: string;
+  title: string;
+  channelTitle: string;
+  publishedAt: string;
+  thumbnail: string;
+  details?: VideoDetails; // 只有 /api/highlights 會補上
+} & GameMeta;
+
+// 列表排序：latest＝依比賽日期分組（新到舊），views＝整個時間窗依觀看數（由後端排好再分頁）
+export type HighlightSort = 'latest' | 'views';
+
+// 依觀看數排序時最多參與排名的影片數（時間窗內最新的這幾支；補資訊每 50 支一次 videos.list）
+export const MAX_RANKED_VIDEOS = 200;
+
+// GET /api/highlights 回應
+export type HighlightsResponse = {
+  items: Video[];
+  count: number;
+  nextCursor: string | null;
+  // 依觀看數排序時才有：時間窗內的影片太多，只排了最新的一部分
+  truncated?: boolean;
+};
+
+// 列表向 /api/highlights 要資料的條件；首頁伺服端渲染用同一組條件抓第一頁，
+// 兩邊組出的查詢字串相同，前端才會沿用伺服端的結果
+export type HighlightsRequest = {
+  type: ContentTypeId;
+  keywords: string; // 額外的標題關鍵字（空白分隔）
+  recentDays: number;
+  pageSize: number;
+  titleMustAll: string[];
+  teams: TeamId[];
+  from: string | null; // YYYY-MM-DD，有 from/to 時取代 recentDays
+  to: string | null;
+  sort: HighlightSort;
+};
+
+export function highlightsSearchParams(
+  r: HighlightsRequest,
+  cursor: string | null = null
+) {
+  const qs = new URLSearchParams();
+  qs.set('limit', String(r.pageSize));
+  if (r.type !== DEFAULT_CONTENT_TYPE) qs.set('type', r.type);
+  if (r.keywords) qs.set('q', r.keywords);
+  // 時間窗：指定日期區間時由後端依比賽日期篩選，否則看最近 recentDays 天
+  if (r.from || r.to) {
+    if (r.from) qs.set('from', r.from);
+    if (r.to) qs.set('to', r.to);
+  } else {
+    qs.set('days', String(r.recentDays));
+  }
+  if (r.sort === 'views') qs.set('sort', 'views');
+  if (cursor) qs.set('cursor', cursor);
+  // 把 AND 條件交給後端
+  r.titleMustAll.forEach((t) => qs.append('mustAll', t));
+  r.teams.forEach((t) => qs.append('team', t));
+  return qs;
+}
+
+// 首頁列表的條件：最近 30 天、每頁 24 支，其餘由篩選列決定；
+// 首頁伺服端渲染與篩選列都由這裡組出條件，查詢字串才會一致
+export function homeHighlightsRequest({
+  type,
+  teams,
+  from,
+  to,
+  sort,
+}: Pick<
+  HighlightsRequest,
+  'type' | 'teams' | 'from' | 'to' | 'sort'
+>): HighlightsRequest {
+  return {
+    type,
+    keywords: '',
+    recentDays: 30,
+    pageSize: 24,
+    titleMustAll: [],
+    teams,
+    from,
+    to,
+    sort,
+  };
+}
+
+// 伺服端先抓好的第一頁；query 為抓取時的查詢字串（不含 cursor）
+export type InitialHighlights = {
+  query: string;
+  page: HighlightsResponse;
+};
+
+// 球隊篩選：所選球隊都必須出現在這場比賽（選兩隊即為對戰組合）；透過別名比對標題
+export function videoMatchesTeams(v: Video, ids: TeamId[]) {
+  if (!ids.length) return true;
+  const found = new Set<TeamId>(findTeams(v.title));
+  if (v.awayTeamId) found.add(v.awayTeamId);
+  if (v.homeTeamId) found.add(v.homeTeamId);
+  return ids.every((id) => found.has(id));
+}
+
+// 找出某場比賽的全場精華：同一天、同兩隊（主客順序不拘），有場次編號時也要一致
+export function findGameHighlight(
+  videos: Video[],
+  game: {
+    date: string;
+    awayTeamId: TeamId | null;
+    homeTeamId: TeamId | null;
+    gameNo: number | null;
+  }
+): Video | null {
+  if (!game.awayTeamId || !game.homeTeamId) return null;
+  const ids = [game.awayTeamId, game.homeTeamId];
+  return (
+    videos.find(
+      (v) =>
+        v.gameDate === game.date &&
+        (v.gameNo === null ||
+          game.gameNo === null ||
+          v.gameNo === game.gameNo) &&
+        videoMatchesTeams(v, ids)
+    ) ?? null
+  );
+}
+
+// 影片的比賽日期：以標題解析出的日期為準，解析不到時用上架日（台灣時間）
+export function videoDate(v: Video) {
+  if (v.gameDate) return v.gameDate;
+  const t = Date.parse(v.publishedAt);
+  return Number.isFinite(t) ? taipeiDate(new Date(t)) : '';
+}
+
+// 影片長度，例如 3:12:05、47:40；不到一小時不顯示小時
+export function formatDuration(sec: number) {
+  const h = Math.floor(sec / 3600);
+  const m = Math.floor((sec % 3600) / 60);
+  const s = Math.floor(sec % 60);
+  const mm = h ? String(m).padStart(2, '0') : String(m);
+  return [...(h ? [String(h)] : []), mm, String(s).padStart(2, '0')].join(':');
+}
@@ -0,0 +1,126 @@
+// 多語系：zh-TW（預設）與 en 的字串、日期格式與英文隊名（伺服端與前端共用）
+//
+// 語系存在 cookie（locale），沒有時依瀏覽器的 Accept-Language；切換語言只改 cookie 再重新整理
+import type { Game } from './games';
+import en from './messages/en';
+import zhTW from './messages/zh-TW';
+import { resolveTeam, getTeam, type Team } from './teams';
+
+export type Locale = 'zh-TW' | 'en';
+
+export const LOCALES: Locale[] = ['zh-TW', 'en'];
+export const DEFAULT_LOCALE: Locale = 'zh-TW';
+export const LOCALE_COOKIE = 'locale';
+
+// 語言切換器上顯示的名稱（各自用該語言寫）
+export const LOCALE_NAMES: Record<Locale, string> = {
+  'zh-TW': '中文',
+  en: 'English',
+};
+
+export type MessageKey = keyof typeof zhTW;
+export type Messages = Record<MessageKey, string>;
+
+const CATALOGS: Record<Locale, Messages> = { 'zh-TW': zhTW, en };
+
+export function isLocale(s: string | null | undefined): s is Locale {
+  return LOCALES.includes(s as Locale);
+}
+
+// Accept-Language（例如 "en-US,en;q=0.9,zh-TW;q=0.8"）挑出第一個支援的語系；中文一律用 zh-TW
+export function matchLocale(acceptLanguage: string | null | undefined) {
+  const langs = (acceptLanguage ?? '')
+    .split(',')
+    .map((part) => {
+      const [tag, q] = part.trim().split(';q=');
+      return { tag: tag.toLowerCase(), q: q === undefined ? 1 : Number(q) };
+    })
+    .filter((l) => l.tag && l.q > 0)
+    .sort((a, b) => b.q - a.q);
+  for (const { tag } of langs) {
+    if (tag.startsWith('zh')) return 'zh-TW';
+    if (tag.startsWith('en')) return 'en';
+  }
+  return DEFAULT_LOCALE;
+}
+
+export type Translate = (
+  key: MessageKey,
+  params?: Record<string, string | number>
+) => string;
+
+// 取字串並代入 {參數}；字串含「單數|複數」時依 n 選擇
+export function createTranslator(locale: Locale): Translate {
+  const catalog = CATALOGS[locale];
+  return (key, params = {}) => {
+    let msg = catalog[key] ?? zhTW[key];
+    if (msg.includes('|') && typeof params.n === 'number') {
+      const [one, other] = msg.split('|');
+      msg = params.n === 1 ? one : other;
+    }
+    return msg.replace(/\{(\w+)\}/g, (m, k) =>
+      k in params ? String(params[k]) : m
+    );
+  };
+}
+
+// 日期時間一律以台灣時間顯示，格式依語系
+export function formatDateTime(iso: string, locale: Locale) {
+  return new Date(iso).toLocaleString(locale, {
+    timeZone: 'Asia/Taipei',
+    hour12: false,
+  });
+}
+
+export function formatNumber(n: number, locale: Locale) {
+  return n.toLocaleString(locale);
+}
+
+// 比賽狀態：官網的狀態文字（例如「7局下」）是中文，英文介面改用固定的狀態名稱
+export function gameStatusLabel(
+  g: Pick<Game, 'status' | 'statusText' | 'time'>,
+  locale: Locale,
+  t: Translate
+) {
+  if (g.status === 'scheduled') return g.time || t('today.notStarted');
+  if (g.status === 'final') return t('today.final');
+  return (
+    (locale === 'zh-TW' && g.statusText) ||
+    t(g.status === 'live' ? 'today.live' : 'today.postponed')
+  );
+}
+
+// 連勝/連敗：官網寫「2連勝」，英文改成 W2 / L2 / T2
+export function localStreak(text: string, locale: Locale) {
+  if (locale === 'zh-TW') return text;
+  const m = text.match(/(\d+)\s*連(勝|敗|和)/);
+  return m ? `${{ 勝: 'W', 敗: 'L', 和: 'T' }[m[2]]}${m[1]}` : text;
+}
+
+// 英文隊名對照（中文直接用登錄表的名稱）
+const TEAM_NAMES_EN: Record<Team['id'], { name: string; short: string }> = {
+  brothers: { name: 'CTBC Brothers', short: 'Brothers' },
+  lions: { name: 'Uni-President 7-Eleven Lions', short: 'Lions' },
+  monkeys: { name: 'Rakuten Monkeys', short: 'Monkeys' },
+  guardians: { name: 'Fubon Guardians', short: 'Guardians' },
+  dragons: { name: 'Wei Chuan Dragons', short: 'Dragons' },
+  hawks: { name: 'TSG Hawks', short: 'Hawks' },
+};
+
+export function teamName(team: Team, locale: Locale, short = false) {
+  if (locale === 'zh-TW') return short ? team.short : team.name;
+  const en = TEAM_NAMES_EN[team.id];
+  return short ? en.short : en.name;
+}
+
+// 官網/標題上的隊名原文轉成目前語系；對不到登錄表時照原文顯示
+export function localTeamName(
+  name: string | null | undefined,
+  locale: Locale,
+  short = false
+) {
+  if (!name) return '';
+  if (locale === 'zh-TW' && !short) return name;
+  const team = getTeam(resolveTeam(name));
+  return team ? teamName(team, locale, short) : name;
+}
@@ -0,0 +1,178 @@
+// /api/leaders 的共用型別與查詢條件（路由與前端元件共用）
+import { DEFAULT_KIND_CODE, FIRST_SEASON_YEAR } from './records';
+import { isTeamId, type TeamId } from './teams';
+
+// 官網個人成績頁的一列；數值欄位解析失敗為 null
+type PlayerBase = {
+  player: string;
+  playerUrl?: string; // 官網球員頁
+  team: string;
+  teamId: TeamId | null;
+  games: number | null;
+};
+
+export type BattingStats = PlayerBase & {
+  pa: number | null; // 打席
+  ab: number | null;
+  runs: number | null;
+  hits: number | null;
+  hr: number | null;
+  rbi: number | null;
+  sb: number | null;
+  bb: number | null;
+  so: number | null;
+  avg: number | null;
+  obp: number | null;
+  slg: number | null;
+  ops: number | null;
+};
+
+export type PitchingStats = PlayerBase & {
+  outs: number | null; // 投球局數換算成出局數（官網 "123.1" 代表 123 又 1/3 局）
+  wins: number | null;
+  losses: number | null;
+  saves: number | null;
+  holds: number | null;
+  hits: number | null;
+  hr: number | null;
+  bb: number | null;
+  so: number | null;
+  runs: number | null;
+  er: number | null;
+  era: number | null;
+  whip: number | null;
+};
+
+export type StatGroup = 'batting' | 'pitching';
+
+// 排行榜項目：stat 對應到成績列的欄位；asc 為數字越小越好；rate 為比率類，需達規定打席/局數
+type Category<G extends StatGroup> = {
+  group: G;
+  stat: keyof (G extends 'batting' ? BattingStats : PitchingStats);
+  asc?: boolean;
+  rate?: boolean;
+  digits: number; // 顯示的小數位數
+};
+
+export const LEADER_CATEGORIES = {
+  avg: { group: 'batting', stat: 'avg', rate: true, digits: 3 },
+  hits: { group: 'batting', stat: 'hits', digits: 0 },
+  hr: { group: 'batting', stat: 'hr', digits: 0 },
+  rbi: { group: 'batting', stat: 'rbi', digits: 0 },
+  sb: { group: 'batting', stat: 'sb', digits: 0 },
+  ops: { group: 'batting', stat: 'ops', rate: true, digits: 3 },
+  era: { group: 'pitching', stat: 'era', asc: true, rate: true, digits: 2 },
+  whip: { group: 'pitching', stat: 'whip', asc: true, rate: true, digits: 2 },
+  wins: { group: 'pitching', stat: 'wins', digits: 0 },
+  so: { group: 'pitching', stat: 'so', digits: 0 },
+  saves: { group: 'pitching', stat: 'saves', digits: 0 },
+  holds: { group: 'pitching', stat: 'holds', digits: 0 },
+} satisfies Record<string, Category<'batting'> | Category<'pitching'>>;
+
+export type LeaderCategory = keyof typeof LEADER_CATEGORIES;
+
+export const LEADER_CATEGORY_IDS = Object.keys(
+  LEADER_CATEGORIES
+) as LeaderCategory[];
+
+export function isLeaderCategory(s: string): s is LeaderCategory {
+  return s in LEADER_CATEGORIES;
+}
+
+// 規定打席 = 球隊出賽數 × 3.1；規定投球局數 = 球隊出賽數 × 1
+export const QUALIFY_PA_PER_GAME = 3.1;
+export const QUALIFY_OUTS_PER_GAME = 3;
+
+export type LeaderEntry = {
+  rank: number; // 同數值同名次
+  player: string;
+  playerUrl?: string;
+  team: string;
+  teamId: TeamId | null;
+  value: number;
+};
+
+export type LeaderBoard = {
+  category: LeaderCategory;
+  group: StatGroup;
+  qualifiedOnly: boolean; // 比率類且有球隊出賽數可判斷時才會是 true
+  leaders: LeaderEntry[];
+};
+
+export type LeadersQuery = {
+  year: number;
+  kindCode: string;
+  categories: LeaderCategory[];
+  team: TeamId | null;
+  qualified: boolean; // false 時比率類也列出未達規定的球員
+  limit: number;
+};
+
+// GET /api/leaders 回應
+export type LeadersResponse = {
+  source: Partial<Record<StatGroup, string>>;
+  query: LeadersQuery;
+  updatedAt: string;
+  boards: LeaderBoard[];
+};
+
+export const DEFAULT_LEADERS_LIMIT = 5;
+const MAX_LEADERS_LIMIT = 50;
+
+// 解析 ?year=&kindCode=&category=&team=&qualified=&limit= ；不合法時回傳錯誤訊息字串
+// category 可重複或以逗號分隔，省略時為全部項目
+export function parseLeadersQuery(
+  params: URLSearchParams
+): LeadersQuery | string {
+  const thisYear = new Date().getFullYear();
+
+  const yearIn = params.get('year');
+  const year = yearIn ? Number(yearIn) : thisYear;
+  if (!Number.isInteger(year) || year < FIRST_SEASON_YEAR || year > thisYear) {
+    return `Invalid year: ${yearIn}`;
+  }
+
+  const kindCode = (params.get('kindCode') ?? DEFAULT_KIND_CODE).toUpperCase();
+  if (!/^[A-Z]$/.test(kindCode)) return `Invalid kindCode: ${kindCode}`;
+
+  const categoryIn = params
+    .getAll('category')
+    .flatMap((c) => c.split(','))
+    .map((c) => c.trim().toLowerCase())
+    .filter(Boolean);
+  const badCategory = categoryIn.find((c) => !isLeaderCategory(c));
+  if (badCategory) return `Invalid category: ${badCategory}`;
+  const categories = categoryIn.length
+    ? [...new Set(categoryIn as LeaderCategory[])]
+    : LEADER_CATEGORY_IDS;
+
+  const teamIn = params.get('team');
+  if (teamIn && !isTeamId(teamIn)) return `Invalid team: ${teamIn}`;
+
+  const qualifiedIn = params.get('qualified') ?? '1';
+  if (!['0', '1'].includes(qualifiedIn)) {
+    return `Invalid qualified: ${qualifiedIn}`;
+  }
+
+  const limitIn = params.get('limit');
+  const limit = limitIn ? Number(limitIn) : DEFAULT_LEADERS_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LEADERS_LIMIT) {
+    return `Invalid limit: ${limitIn}`;
+  }
+
+  return {
+    year,
+    kindCode,
+    categories,
+    team: teamIn ? (teamIn as TeamId) : null,
+    qualified: qualifiedIn === '1',
+    limit,
+  };
+}
+
+// 數值依項目的小數位數顯示；打擊率類照棒球習慣省略個位數的 0（.325）
+export function formatLeaderValue(category: LeaderCategory, value: number) {
+  const { digits } = LEADER_CATEGORIES[category];
+  const s = value.toFixed(digits);
+  return digits === 3 && value < 1 ? s.replace(/^0/, '') : s;
+}
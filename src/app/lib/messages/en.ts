@@ -0,0 +1,167 @@
+// 英文字串；key 必須與 zh-TW.ts 一致（少了會型別錯誤）
+import type { Messages } from '../i18n';
+
+const en: Messages = {
+  'site.title': 'CPBL Highlights',
+  'site.description':
+    'Full-game highlights of the Chinese Professional Baseball League',
+  'home.heading': 'CPBL Full-Game Highlights',
+  'home.source': 'Source: official CPBL YouTube channel',
+  'lang.label': 'Language',
+
+  'common.loadError': 'Failed to load: {error}',
+  'common.gameInfo': 'Game details →',
+  'common.unknownDate': 'Unknown date',
+
+  'type.fullgame': 'Full games',
+  'type.topplays': 'Top plays',
+  'type.interviews': 'Interviews',
+  'type.recap': 'CPBL TV recap',
+
+  'controls.types': 'Video type',
+  'controls.filterTeam': 'Filter by {team}',
+  'controls.clearTeams': 'Clear filter',
+  'controls.allTeams': 'All',
+  'controls.month': 'Choose month',
+  'controls.recent30': 'Last 30 days',
+  'controls.customRange': 'Custom range',
+  'controls.monthOption': '{monthName} {year}',
+  'controls.from': 'From',
+  'controls.to': 'To',
+  'controls.sort': 'Sort',
+  'controls.sortLatest': 'Latest',
+  'controls.sortViews': 'Most viewed',
+  'controls.hideWatched': 'Hide watched',
+  'controls.subscribe': 'Subscribe: ',
+  'controls.calendar': 'Calendar',
+  'controls.matchup': 'Matchup: ',
+  'controls.team': 'Team: ',
+  'controls.pickAnother': ' (pick another team for a matchup)',
+
+  'highlights.live': 'Live',
+  'highlights.upcoming': 'Upcoming',
+  'highlights.empty': 'No videos match these filters.',
+  'highlights.fetchError': 'Failed to load: {error}',
+  'highlights.groupGames': '({n} game)|({n} games)',
+  'highlights.groupVideos': '({n} video)|({n} videos)',
+  'highlights.watched': 'Watched',
+  'highlights.views': ' · {count} view| · {count} views',
+  'highlights.loading': 'Loading…',
+  'highlights.loadMore': 'Load more',
+  'highlights.end': 'No more results',
+  'highlights.rankedLatest':
+    'Only the latest {n} videos in this range are ranked',
+
+  'player.prev': 'Previous',
+  'player.next': 'Next',
+  'player.close': 'Close',
+  'player.upNext': 'Up next ({n})',
+
+  'standings.rank': 'Rank',
+  'standings.team': 'Team',
+  'standings.games': 'G',
+  'standings.wdl': 'W-T-L',
+  'standings.winRate': 'PCT',
+  'standings.gb': 'GB',
+  'standings.elim': 'Elim #',
+  'standings.streak': 'Streak',
+  'standings.last10': 'Last 10',
+  'standings.trend': 'Trend',
+  'standings.year': 'Choose season',
+  'standings.half0': 'Full season',
+  'standings.half1': 'First half',
+  'standings.half2': 'Second half',
+  'standings.noH2h': 'No head-to-head data',
+  'standings.trendLabel': '{from} {fromValue} → {to} {toValue}',
+  'standings.trendRank': '#{n}',
+  'standings.trendBy': 'Trend: {metric}',
+  'standings.trendMetric': 'Trend metric',
+  'standings.source': 'Source: ',
+  'standings.official': 'CPBL official site',
+  'standings.updated': ' · Updated ',
+  'standings.analytics': 'Advanced stats',
+  'standings.remaining': 'Left',
+  'standings.magicElim': 'Magic / Elim #',
+  'standings.clinched': 'Clinched 1st',
+  'standings.eliminated': 'Out of 1st',
+  'standings.projected': 'Projected',
+  'standings.firstOdds': '1st %',
+  'standings.playoffOdds': 'Top {n} %',
+  'standings.simNote':
+    ' · Projections extend the current W-T-L rates; odds come from {runs} simulations of the remaining head-to-head games, assuming {perPair} games per matchup',
+  'standings.stale':
+    'The official site cannot be reached right now ({code}); showing data from {time}.',
+
+  'leaders.heading': '{year} league leaders',
+  'leaders.batting': 'Batting',
+  'leaders.pitching': 'Pitching',
+  'leaders.avg': 'AVG',
+  'leaders.hits': 'Hits',
+  'leaders.hr': 'HR',
+  'leaders.rbi': 'RBI',
+  'leaders.sb': 'SB',
+  'leaders.ops': 'OPS',
+  'leaders.era': 'ERA',
+  'leaders.whip': 'WHIP',
+  'leaders.wins': 'Wins',
+  'leaders.so': 'Strikeouts',
+  'leaders.saves': 'Saves',
+  'leaders.holds': 'Holds',
+  'leaders.none': 'No data yet',
+  'leaders.qualified':
+    'Rate stats only list players with enough plate appearances (3.1 per team game) or innings (1 per team game)',
+  'leaders.source': 'Source: CPBL official player stats',
+
+  'team.standings': 'Standings',
+  'team.form': 'Recent form',
+  'team.last10': 'Last 10: {wins} W, {draws} T, {losses} L',
+  'team.h2h': 'Head-to-head',
+  'team.upcoming': 'Upcoming games',
+  'team.noUpcoming': 'No games in the next {days} days.',
+  'team.highlights': 'Full-game highlights',
+  'team.official': 'Official team page',
+  'team.standingsError': 'Failed to load standings: {error}',
+
+  'today.heading': "Today's games ({date})",
+  'today.none': 'No games today',
+  'today.error': "Failed to load today's games: {error}",
+  'today.notStarted': 'Not started',
+  'today.final': 'Final',
+  'today.live': 'Live',
+  'today.postponed': 'Postponed',
+  'today.highlight': '▶ Highlights',
+
+  'game.back': '← Home',
+  'game.highlight': 'Full-game highlights',
+  'game.noHighlight': 'Highlights are not up yet.',
+  'game.lineScore': 'Line score',
+  'game.teamStats': '{team} box score',
+  'game.boxSource': 'Source: CPBL box score',
+  'game.boxError': 'Failed to load box score: {error}',
+  'game.standings': 'Standings today',
+  'game.win': 'W',
+  'game.loss': 'L',
+  'game.save': 'SV',
+  'game.hold': 'HLD',
+  'game.team': 'Team',
+  'game.batter': 'Batter',
+  'game.position': 'Pos',
+  'game.ab': 'AB',
+  'game.runs': 'R',
+  'game.hits': 'H',
+  'game.rbi': 'RBI',
+  'game.bb': 'BB',
+  'game.so': 'SO',
+  'game.avg': 'AVG',
+  'game.pitcher': 'Pitcher',
+  'game.ip': 'IP',
+  'game.hitsAllowed': 'H',
+  'game.runsAllowed': 'R',
+  'game.er': 'ER',
+  'game.era': 'ERA',
+  'game.last10': 'Last 10',
+
+  'notify.newHighlight': 'New full-game highlight: {title}',
+};
+
+export default en;
@@ -0,0 +1,162 @@
+// 繁體中文字串（預設語系）；{name} 為參數，「單數|複數」依 {n} 選擇（中文不需要）
+const zhTW = {
+  'site.title': 'CPBL 全場精華',
+  'site.description': '中華職棒全場精華',
+  'home.heading': '中華職棒 全場精華',
+  'home.source': '來源：CPBL 中華職棒 Youtube 官方頻道',
+  'lang.label': '語言',
+
+  'common.loadError': '讀取錯誤：{error}',
+  'common.gameInfo': '比賽資訊 →',
+  'common.unknownDate': '日期不明',
+
+  'type.fullgame': '全場精華',
+  'type.topplays': '好球精選',
+  'type.interviews': '賽後訪問',
+  'type.recap': 'CPBL TV 每日回顧',
+
+  'controls.types': '影片類型',
+  'controls.filterTeam': '篩選 {team}',
+  'controls.clearTeams': '清除篩選',
+  'controls.allTeams': '全部',
+  'controls.month': '選擇月份',
+  'controls.recent30': '最近 30 天',
+  'controls.customRange': '自訂區間',
+  'controls.monthOption': '{year} 年 {month} 月',
+  'controls.from': '起日',
+  'controls.to': '迄日',
+  'controls.sort': '排序',
+  'controls.sortLatest': '最新',
+  'controls.sortViews': '最多觀看',
+  'controls.hideWatched': '隱藏已看過',
+  'controls.subscribe': '訂閱：',
+  'controls.calendar': '行事曆',
+  'controls.matchup': '對戰組合：',
+  'controls.team': '球隊：',
+  'controls.pickAnother': '（再選一隊可看對戰）',
+
+  'highlights.live': '直播中',
+  'highlights.upcoming': '即將直播',
+  'highlights.empty': '目前沒有符合條件的影片。',
+  'highlights.fetchError': '讀取發生錯誤：{error}',
+  'highlights.groupGames': '（{n} 場）',
+  'highlights.groupVideos': '（{n} 支）',
+  'highlights.watched': '已看過',
+  'highlights.views': ' · 觀看 {count} 次',
+  'highlights.loading': '載入中…',
+  'highlights.loadMore': '載入更多',
+  'highlights.end': '已無更多結果',
+  'highlights.rankedLatest': '只排了時間窗內最新的 {n} 支影片',
+
+  'player.prev': '上一支',
+  'player.next': '下一支',
+  'player.close': '關閉',
+  'player.upNext': '接下來播放（{n}）',
+
+  'standings.rank': '排名',
+  'standings.team': '球隊',
+  'standings.games': '出賽數',
+  'standings.wdl': '勝-和-敗',
+  'standings.winRate': '勝率',
+  'standings.gb': '勝差',
+  'standings.elim': '淘汰指數',
+  'standings.streak': '連勝/連敗',
+  'standings.last10': '近十場戰績',
+  'standings.trend': '走勢',
+  'standings.year': '選擇年度',
+  'standings.half0': '全年',
+  'standings.half1': '上半季',
+  'standings.half2': '下半季',
+  'standings.noH2h': '沒有對戰資料',
+  'standings.trendLabel': '{from} {fromValue} → {to} {toValue}',
+  'standings.trendRank': '第{n}名',
+  'standings.trendBy': '走勢：{metric}',
+  'standings.trendMetric': '走勢指標',
+  'standings.source': '資料來源：',
+  'standings.official': 'CPBL 官方',
+  'standings.updated': '．更新：',
+  'standings.analytics': '進階數據',
+  'standings.remaining': '剩餘場數',
+  'standings.magicElim': '魔術/淘汰數字',
+  'standings.clinched': '已確定第一',
+  'standings.eliminated': '已無緣第一',
+  'standings.projected': '推估全季戰績',
+  'standings.firstOdds': '第一名機率',
+  'standings.playoffOdds': '前{n}名機率',
+  'standings.simNote':
+    '．推估戰績依目前勝和敗比例計算；機率為依剩餘對戰場次模擬 {runs} 次的結果（假設每組對戰共 {perPair} 場）',
+  'standings.stale': '官網資料暫時無法更新（{code}），目前顯示 {time} 的資料。',
+
+  'leaders.heading': '{year} 個人排行榜',
+  'leaders.batting': '打擊',
+  'leaders.pitching': '投球',
+  'leaders.avg': '打擊率',
+  'leaders.hits': '安打',
+  'leaders.hr': '全壘打',
+  'leaders.rbi': '打點',
+  'leaders.sb': '盜壘',
+  'leaders.ops': 'OPS',
+  'leaders.era': '防禦率',
+  'leaders.whip': 'WHIP',
+  'leaders.wins': '勝投',
+  'leaders.so': '奪三振',
+  'leaders.saves': '救援成功',
+  'leaders.holds': '中繼成功',
+  'leaders.none': '尚無資料',
+  'leaders.qualified':
+    '比率類只列達規定打席（球隊出賽數 × 3.1）或投球局數（× 1）的球員',
+  'leaders.source': '資料來源：CPBL 官方個人成績',
+
+  'team.standings': '戰績',
+  'team.form': '近況',
+  'team.last10': '近十場 {wins} 勝 {draws} 和 {losses} 敗',
+  'team.h2h': '對戰成績',
+  'team.upcoming': '近期賽程',
+  'team.noUpcoming': '未來 {days} 天沒有比賽。',
+  'team.highlights': '全場精華',
+  'team.official': '官網球隊頁',
+  'team.standingsError': '戰績讀取錯誤：{error}',
+
+  'today.heading': '今日賽程（{date}）',
+  'today.none': '今日無比賽',
+  'today.error': '今日賽程讀取失敗：{error}',
+  'today.notStarted': '未開賽',
+  'today.final': '終場',
+  'today.live': '比賽中',
+  'today.postponed': '延賽',
+  'today.highlight': '▶ 全場精華',
+
+  'game.back': '← 回首頁',
+  'game.highlight': '全場精華',
+  'game.noHighlight': '全場精華尚未上架。',
+  'game.lineScore': '逐局比分',
+  'game.teamStats': '{team} 成績',
+  'game.boxSource': '來源：CPBL 官網 Box Score',
+  'game.boxError': 'Box score 讀取錯誤：{error}',
+  'game.standings': '今日戰績',
+  'game.win': '勝投',
+  'game.loss': '敗投',
+  'game.save': '救援',
+  'game.hold': '中繼',
+  'game.team': '隊伍',
+  'game.batter': '打者',
+  'game.position': '守位',
+  'game.ab': '打數',
+  'game.runs': '得分',
+  'game.hits': '安打',
+  'game.rbi': '打點',
+  'game.bb': '四壞',
+  'game.so': '三振',
+  'game.avg': '打擊率',
+  'game.pitcher': '投手',
+  'game.ip': '局數',
+  'game.hitsAllowed': '被安打',
+  'game.runsAllowed': '失分',
+  'game.er': '自責分',
+  'game.era': '防禦率',
+  'game.last10': '近十場',
+
+  'notify.newHighlight': '新的全場精華：{title}',
+};
+
+export default zhTW;
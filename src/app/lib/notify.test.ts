@@ -0,0 +1,205 @@
+import { spawn } from 'child_process';
+import { mkdtemp } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  MAX_PENDING_RUNS,
+  buildPayload,
+  checkAndNotify,
+  dispatch,
+  readState,
+  writeState,
+  type Subscription,
+} from './notify';
+import { getSource } from './sources';
+import { fixtureFetch, setUpstreamFetch } from './upstream';
+import { playlistCache, toVideo } from './youtube';
+
+type Hit = { path: string; status: number; body: any };
+
+// 啟動 scripts/webhook-standin.ts（--port 0 由系統挑埠），從它印出的紀錄收集收到的請求
+async function startStandin(args: string[]) {
+  const child = spawn(path.join('node_modules', '.bin', 'tsx'), [
+    'scripts/webhook-standin.ts',
+    '--port',
+    '0',
+    ...args,
+  ]);
+  const hits: Hit[] = [];
+  let buffered = '';
+  const url = await new Promise<string>((resolve, reject) => {
+    child.once('error', reject);
+    child.once('exit', (code) => reject(new Error(`standin exited ${code}`)));
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => {
+      const lines = (buffered + chunk).split('\n');
+      buffered = lines.pop()!;
+      for (const line of lines) {
+        const listening = line.match(/listening on (\S+)/);
+        if (listening) resolve(listening[1]);
+        const hit = line.match(/^\[standin\] #\d+ POST (\S+) → (\d+)/);
+        if (hit) hits.push({ path: hit[1], status: +hit[2], body: null });
+        else if (line.startsWith('{')) hits.at(-1)!.body = JSON.parse(line);
+      }
+    });
+  });
+  const stop = () =>
+    new Promise<void>((resolve) => {
+      child.removeAllListeners('exit');
+      child.once('exit', () => resolve());
+      child.kill();
+    });
+  return { url, hits, stop };
+}
+
+const video = (title: string) =>
+  toVideo({
+    snippet: { title, resourceId: { videoId: 'fx000000009' } },
+    contentDetails: { videoPublishedAt: '2025-06-14T14:00:00Z' },
+  });
+
+describe('checkAndNotify', () => {
+  let state: string;
+
+  beforeEach(async () => {
+    state = path.join(await mkdtemp(path.join(tmpdir(), 'notify-')), 's.json');
+    playlistCache.clear();
+    setUpstreamFetch(fixtureFetch('fixtures'));
+  });
+  afterEach(() => setUpstreamFetch(null));
+
+  it('only records the latest video on the first run', async () => {
+    const dry = await checkAndNotify({
+      subscriptions: [],
+      state,
+      dryRun: true,
+    });
+    expect(dry).toMatchObject({ baseline: true, latestId: 'fx000000001' });
+    // dry-run 不寫狀態檔
+    expect(await readState(state)).toBeNull();
+
+    const first = await checkAndNotify({ subscriptions: [], state });
+    expect(first.deliveries).toEqual([]);
+    expect((await readState(state))?.lastSeenId).toBe('fx000000001');
+  });
+
+  it('keeps a failed delivery pending and retries it on the next run', async () => {
+    const standin = await startStandin(['--fail', '1']);
+    try {
+      const subscriptions: Subscription[] = [
+        { url: `${standin.url}/slack`, format: 'slack', lang: 'en' },
+      ];
+      const { playlistId } = await getSource();
+      await writeState(
+        { playlistId, lastSeenId: 'fx000000003', checkedAt: '' },
+        state
+      );
+
+      // 舊的先發：G122 碰上替身的 500，G121 送成功
+      const first = await checkAndNotify({ subscriptions, state, retries: 0 });
+      expect(first.fresh.map((v) => v.id)).toEqual([
+        'fx000000001',
+        'fx000000002',
+      ]);
+      expect(first.deliveries.map((d) => [d.videoId, d.ok])).toEqual([
+        ['fx000000002', false],
+        ['fx000000001', true],
+      ]);
+      const saved = await readState(state);
+      expect(saved?.lastSeenId).toBe('fx000000001');
+      expect(saved?.pending).toEqual([
+        {
+          url: `${standin.url}/slack`,
+          video: expect.objectContaining({ id: 'fx000000002' }),
+          runs: 1,
+        },
+      ]);
+
+      const second = await checkAndNotify({ subscriptions, state, retries: 0 });
+      expect(second.fresh).toEqual([]);
+      expect(second.deliveries.map((d) => [d.videoId, d.ok])).toEqual([
+        ['fx000000002', true],
+      ]);
+      expect((await readState(state))?.pending).toBeUndefined();
+
+      await vi.waitFor(() => expect(standin.hits).toHaveLength(3));
+      expect(standin.hits.map((h) => [h.path, h.status])).toEqual([
+        ['/slack', 500],
+        ['/slack', 204],
+        ['/slack', 204],
+      ]);
+      expect(standin.hits[1].body.text).toBe(
+        'New full-game highlight: <https://www.youtube.com/watch?v=fx000000001|【全場精華】06/14 中信兄弟 vs 統一7-ELEVEn獅｜G121>\n' +
+          '2025-06-14 CTBC Brothers vs Uni-President 7-Eleven Lions'
+      );
+      expect(standin.hits[2].body.text).toContain('v=fx000000002');
+    } finally {
+      await standin.stop();
+    }
+  }, 30000);
+});
+
+describe('dispatch', () => {
+  const sub: Subscription = { url: 'http://localhost/hook', format: 'json' };
+  const v = video('【全場精華】06/14 樂天桃猿 vs 味全龍｜G122');
+  const replying = (status: number) =>
+    (async () => new Response(null, { status })) as typeof fetch;
+
+  it('only keeps failures that may succeed later', async () => {
+    const [gone] = await dispatch([v], [sub], {
+      retries: 0,
+      fetchImpl: replying(404),
+    });
+    expect(gone).toMatchObject({ ok: false, pending: null });
+
+    const [busy] = await dispatch([v], [sub], {
+      retries: 0,
+      fetchImpl: replying(503),
+    });
+    expect(busy.pending).toEqual({ url: sub.url, video: v, runs: 1 });
+  });
+
+  it('gives up after MAX_PENDING_RUNS and skips removed subscriptions', async () => {
+    const pending = [{ url: sub.url, video: v, runs: MAX_PENDING_RUNS - 1 }];
+    const [last] = await dispatch([], [sub], {
+      pending,
+      retries: 0,
+      fetchImpl: replying(503),
+    });
+    expect(last).toMatchObject({ ok: false, pending: null });
+    expect(await dispatch([], [], { pending })).toEqual([]);
+  });
+});
+
+describe('buildPayload', () => {
+  const v = video('【全場精華】06/14 樂天桃猿 vs 味全龍 <延賽補賽> & G122');
+
+  it('escapes Slack control characters', () => {
+    const { text } = buildPayload(
+      { url: 'http://localhost/hook', format: 'slack' },
+      v
+    ) as { text: string };
+    expect(text).toContain(
+      '|【全場精華】06/14 樂天桃猿 vs 味全龍 &lt;延賽補賽&gt; &amp; G122>'
+    );
+    expect(text.startsWith('新的全場精華：<https://')).toBe(true);
+  });
+
+  it('writes Discord messages in the subscription language', () => {
+    const payload = (lang: 'zh-TW' | 'en') =>
+      buildPayload(
+        { url: 'http://localhost/hook', format: 'discord', lang },
+        v
+      );
+    expect(payload('zh-TW')).toMatchObject({
+      content: `新的全場精華：${v.title}`,
+    });
+    expect(payload('en')).toMatchObject({
+      content: `New full-game highlight: ${v.title}`,
+      embeds: [
+        { description: '2025-06-14 Rakuten Monkeys vs Wei Chuan Dragons' },
+      ],
+    });
+  });
+});
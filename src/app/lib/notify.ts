@@ -0,0 +1,383 @@
+// 新精華通知：比對播放清單最新一頁與上次看到的影片 id，對訂閱的 webhook 發送通知（僅供伺服端使用）
+//
+// 訂閱設定（WEBHOOKS_CONFIG，預設 data/webhooks.json）：
+//   { "subscriptions": [
+//       { "url": "https://discord.com/api/webhooks/...", "format": "discord", "teams": ["dragons"] },
+//       { "url": "https://hooks.slack.com/services/...", "format": "slack", "lang": "en" },
+//       { "url": "http://localhost:4010/hook", "format": "custom",
+//         "template": { "text": "{{title}} {{url}}" } } ] }
+// 觀察狀態（NOTIFY_STATE_PATH，預設 data/notify-state.json）記上次看到的最新影片 id 與送失敗待重送的通知
+import { promises as fs } from 'fs';
+import path from 'path';
+import { videoSummary } from './feeds';
+import { writeFileAtomic } from './files';
+import { videoDate, videoMatchesTeams, type Video } from './highlights';
+import {
+  DEFAULT_LOCALE,
+  createTranslator,
+  isLocale,
+  type Locale,
+} from './i18n';
+import { getSource, matchesSource } from './sources';
+import { getTeam, isTeamId, type TeamId } from './teams';
+import { fetchPlaylistPage, type PlaylistPage } from './youtube';
+
+export type WebhookFormat = 'discord' | 'slack' | 'json' | 'custom';
+
+export type Subscription = {
+  url: string;
+  format: WebhookFormat;
+  teams?: TeamId[]; // 空或未設定＝所有球隊；多隊時任一隊出賽即通知
+  template?: unknown; // format=custom 時的 JSON 樣板，字串中的 {{欄位}} 會被替換
+  lang?: Locale; // discord / slack 訊息的語系，預設 zh-TW
+};
+
+// 送失敗、下次執行要重送的通知；runs 為已失敗的執行次數
+export type PendingDelivery = { url: string; video: Video; runs: number };
+
+export type NotifyState = {
+  playlistId: string;
+  lastSeenId: string | null;
+  checkedAt: string;
+  pending?: PendingDelivery[];
+};
+
+// 單次最多通知的影片數（找不到上次的 id 時，避免一次灌爆頻道）
+export const MAX_PER_RUN = 10;
+
+// 送失敗的通知最多跟著重送幾次執行，之後放棄（webhook 長期失效時不會一直累積）
+export const MAX_PENDING_RUNS = 5;
+
+export function configPath() {
+  return (
+    process.env.WEBHOOKS_CONFIG ??
+    path.join(process.cwd(), 'data', 'webhooks.json')
+  );
+}
+
+export function statePath() {
+  return (
+    process.env.NOTIFY_STATE_PATH ??
+    path.join(process.cwd(), 'data', 'notify-state.json')
+  );
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return null;
+    throw e;
+  }
+}
+
+// 讀取並檢查訂閱設定；格式錯誤直接丟出，避免默默漏發
+export async function readSubscriptions(
+  file = configPath()
+): Promise<Subscription[]> {
+  const config = await readJson<{ subscriptions?: unknown[] }>(file);
+  return (config?.subscriptions ?? []).map((raw, i) => {
+    const s = raw as Partial<Subscription>;
+    if (!s.url || !/^https?:\/\//.test(s.url)) {
+      throw new Error(`subscriptions[${i}]: invalid url`);
+    }
+    const format = s.format ?? 'json';
+    if (!['discord', 'slack', 'json', 'custom'].includes(format)) {
+      throw new Error(`subscriptions[${i}]: invalid format ${format}`);
+    }
+    if (format === 'custom' && s.template === undefined) {
+      throw new Error(`subscriptions[${i}]: custom format needs a template`);
+    }
+    const teams = s.teams ?? [];
+    const bad = teams.filter((t) => !isTeamId(t));
+    if (bad.length) {
+      throw new Error(`subscriptions[${i}]: unknown team ${bad.join(', ')}`);
+    }
+    if (s.lang !== undefined && !isLocale(s.lang)) {
+      throw new Error(`subscriptions[${i}]: invalid lang ${s.lang}`);
+    }
+    return {
+      url: s.url,
+      format,
+      teams,
+      template: s.template,
+      lang: s.lang ?? DEFAULT_LOCALE,
+    };
+  });
+}
+
+export async function readState(file = statePath()) {
+  return readJson<NotifyState>(file);
+}
+
+export async function writeState(state: NotifyState, file = statePath()) {
+  await writeFileAtomic(file, JSON.stringify(state, null, 2));
+}
+
+// 播放清單新到舊：上次看到的 id 之前的都是新片；找不到時整頁都視為新片（最多 MAX_PER_RUN 支）
+export function newSince(items: Video[], lastSeenId: string | null) {
+  const i = items.findIndex((v) => v.id === lastSeenId);
+  return (i >= 0 ? items.slice(0, i) : items).slice(0, MAX_PER_RUN);
+}
+
+const watchUrl = (v: Video) => `https://www.youtube.com/watch?v=${v.id}`;
+
+// 樣板可用的欄位
+function templateFields(v: Video): Record<string, string> {
+  return {
+    id: v.id,
+    title: v.title,
+    url: watchUrl(v),
+    summary: videoSummary(v),
+    date: videoDate(v),
+    away: v.awayTeam ?? '',
+    home: v.homeTeam ?? '',
+    score: v.score ? `${v.score.away}:${v.score.home}` : '',
+    thumbnail: v.thumbnail,
+    publishedAt: v.publishedAt,
+  };
+}
+
+// 遞迴替換樣板中所有字串的 {{欄位}}
+function fillTemplate(
+  template: unknown,
+  fields: Record<string, string>
+): unknown {
+  if (typeof template === 'string') {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, k) => fields[k] ?? '');
+  }
+  if (Array.isArray(template))
+    return template.map((t) => fillTemplate(t, fields));
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(
+      Object.entries(template).map(([k, t]) => [k, fillTemplate(t, fields)])
+    );
+  }
+  return template;
+}
+
+// Slack mrkdwn 只需跳脫這三個字元（https://api.slack.com/reference/surfaces/formatting#escaping）
+const escapeSlack = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// 依訂閱格式組出 POST 內容
+export function buildPayload(sub: Subscription, v: Video): unknown {
+  const locale = sub.lang ?? DEFAULT_LOCALE;
+  const t = createTranslator(locale);
+  switch (sub.format) {
+    case 'discord': {
+      const home = getTeam(v.homeTeamId);
+      return {
+        content: t('notify.newHighlight', { title: v.title }),
+        embeds: [
+          {
+            title: v.title,
+            url: watchUrl(v),
+            description: videoSummary(v, locale),
+            timestamp: v.publishedAt || undefined,
+            color: home ? parseInt(home.color.slice(1), 16) : undefined,
+            thumbnail: v.thumbnail ? { url: v.thumbnail } : undefined,
+          },
+        ],
+      };
+    }
+    case 'slack': {
+      const link = `<${watchUrl(v)}|${escapeSlack(v.title)}>`;
+      const summary = escapeSlack(videoSummary(v, locale));
+      return {
+        text: `${t('notify.newHighlight', { title: link })}\n${summary}`,
+      };
+    }
+    case 'custom':
+      return fillTemplate(sub.template, templateFields(v));
+    default:
+      return { event: 'highlight.published', video: v };
+  }
+}
+
+// 訂閱是否要收這支影片：沒設球隊全收，有設時任一隊出賽就收
+export function wants(sub: Subscription, v: Video) {
+  const teams = sub.teams ?? [];
+  return !teams.length || teams.some((t) => videoMatchesTeams(v, [t]));
+}
+
+// 送出失敗（已重試完或不可重試）；attempts 為實際嘗試次數
+export class WebhookError extends Error {
+  constructor(
+    public status: number | null,
+    message: string,
+    public attempts: number
+  ) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+export type RetryOptions = {
+  retries?: number;
+  baseDelayMs?: number;
+  fetchImpl?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+const defaultSleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// POST JSON；連線錯誤、5xx、429 以指數退避重試（429 有 Retry-After 時照它等），其他 4xx 不重試
+export async function postWithRetry(
+  url: string,
+  body: unknown,
+  {
+    retries = 3,
+    baseDelayMs = 500,
+    fetchImpl = fetch,
+    sleep = defaultSleep,
+  }: RetryOptions = {}
+) {
+  for (let attempt = 0; ; attempt++) {
+    let status: number | null = null;
+    let retryAfterMs: number | null = null;
+    let message: string;
+    try {
+      const res = await fetchImpl(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (res.ok) return { status: res.status, attempts: attempt + 1 };
+      status = res.status;
+      message = `HTTP ${res.status}`;
+      const ra = Number(res.headers.get('Retry-After'));
+      if (Number.isFinite(ra) && ra > 0) retryAfterMs = ra * 1000;
+      if (status < 500 && status !== 429) {
+        throw new WebhookError(status, message, attempt + 1);
+      }
+    } catch (e: any) {
+      if (e instanceof WebhookError) throw e;
+      message = e?.message ?? String(e);
+    }
+    if (attempt >= retries) {
+      throw new WebhookError(status, message, attempt + 1);
+    }
+    await sleep(retryAfterMs ?? baseDelayMs * 2 ** attempt);
+  }
+}
+
+export type Delivery = {
+  videoId: string;
+  url: string;
+  ok: boolean;
+  dryRun: boolean;
+  attempts: number;
+  error?: string;
+  payload: unknown;
+  // 失敗但下次執行還要重送時為待送項目，成功或放棄時為 null
+  pending: PendingDelivery | null;
+};
+
+// 連線錯誤、5xx、429 之後可能恢復，下次執行再送；其他 4xx（網址失效、格式錯）重送也沒用
+const retryable = (e: unknown) =>
+  e instanceof WebhookError &&
+  (e.status === null || e.status >= 500 || e.status === 429);
+
+// 先重送上次失敗的通知，再對每支新片、每個有興趣的訂閱送出；dry-run 只組內容不送出
+// 待送項目的訂閱已從設定移除時略過
+export async function dispatch(
+  videos: Video[],
+  subscriptions: Subscription[],
+  {
+    dryRun = false,
+    pending = [],
+    ...retry
+  }: RetryOptions & { dryRun?: boolean; pending?: PendingDelivery[] } = {}
+): Promise<Delivery[]> {
+  const jobs: { sub: Subscription; video: Video; runs: number }[] = [];
+  for (const p of pending) {
+    const sub = subscriptions.find((s) => s.url === p.url);
+    if (sub) jobs.push({ sub, video: p.video, runs: p.runs });
+  }
+  // 舊的先發，頻道裡的順序與上架順序一致
+  for (const video of [...videos].reverse()) {
+    for (const sub of subscriptions) {
+      if (wants(sub, video)) jobs.push({ sub, video, runs: 0 });
+    }
+  }
+
+  const deliveries: Delivery[] = [];
+  for (const { sub, video, runs } of jobs) {
+    const payload = buildPayload(sub, video);
+    const base = { videoId: video.id, url: sub.url, dryRun, payload };
+    if (dryRun) {
+      deliveries.push({ ...base, ok: true, attempts: 0, pending: null });
+      continue;
+    }
+    try {
+      const { attempts } = await postWithRetry(sub.url, payload, retry);
+      deliveries.push({ ...base, ok: true, attempts, pending: null });
+    } catch (e: any) {
+      const keep = retryable(e) && runs + 1 < MAX_PENDING_RUNS;
+      deliveries.push({
+        ...base,
+        ok: false,
+        attempts: e instanceof WebhookError ? e.attempts : 1,
+        error: e?.message ?? String(e),
+        pending: keep ? { url: sub.url, video, runs: runs + 1 } : null,
+      });
+    }
+  }
+  return deliveries;
+}
+
+export type WatchResult = {
+  baseline: boolean; // 第一次執行只記錄目前最新的影片，不發通知
+  latestId: string | null; // 這次看到的最新影片（狀態檔記錄的 lastSeenId）
+  fresh: Video[];
+  deliveries: Delivery[];
+};
+
+// 檢查一次全場精華來源，重送上次失敗的通知並發送新片通知；dry-run 不更新狀態檔
+export async function checkAndNotify({
+  fetchPage,
+  subscriptions,
+  state = statePath(),
+  dryRun = false,
+  ...retry
+}: RetryOptions & {
+  fetchPage?: (pageToken: string | null) => Promise<PlaylistPage>;
+  subscriptions: Subscription[];
+  state?: string;
+  dryRun?: boolean;
+}): Promise<WatchResult> {
+  const source = await getSource();
+  const prev = await readState(state);
+  const page = fetchPage
+    ? await fetchPage(null)
+    : await fetchPlaylistPage(null, { playlistId: source.playlistId });
+  const items = page.items.filter((v) => matchesSource(source, v));
+
+  // 來源換成別的播放清單時重新記錄基準
+  const baseline = !prev?.lastSeenId || prev.playlistId !== source.playlistId;
+  const fresh = baseline ? [] : newSince(items, prev!.lastSeenId);
+  const deliveries = await dispatch(fresh, subscriptions, {
+    dryRun,
+    pending: prev?.pending ?? [],
+    ...retry,
+  });
+
+  // lastSeenId 照樣往前推進，避免下一輪對已成功的訂閱重複發送；
+  // 送失敗的個別記成待送項目，下次執行只重送那幾筆
+  const latestId = items[0]?.id ?? prev?.lastSeenId ?? null;
+  const pending = deliveries.flatMap((d) => (d.pending ? [d.pending] : []));
+  if (!dryRun && (latestId || pending.length)) {
+    await writeState(
+      {
+        playlistId: source.playlistId,
+        lastSeenId: latestId,
+        checkedAt: new Date().toISOString(),
+        ...(pending.length ? { pending } : {}),
+      },
+      state
+    );
+  }
+  return { baseline, latestId, fresh, deliveries };
+}
@@ -0,0 +1,313 @@
+// CPBL 官網個人打擊/投球成績頁的抓取與解析，以及排行榜計算（僅供伺服端路由使用）
+import * as cheerio from 'cheerio';
+import {
+  CPBL_BASE,
+  ScrapeError,
+  fetchCpblPage,
+  readTable,
+  toNum,
+} from './cpbl';
+import {
+  LEADER_CATEGORIES,
+  QUALIFY_OUTS_PER_GAME,
+  QUALIFY_PA_PER_GAME,
+  type BattingStats,
+  type LeaderBoard,
+  type LeaderCategory,
+  type LeaderEntry,
+  type LeadersQuery,
+  type PitchingStats,
+  type StatGroup,
+} from './leaders';
+import { DEFAULT_KIND_CODE } from './records';
+import { loadStandings } from './standings';
+import { resolveTeam, type TeamId } from './teams';
+
+export const STATS_SOURCE = `${CPBL_BASE}/stats/recordall`;
+
+// 官網以 position 切換打擊（01）與投球（02），year / kindCode 同戰績頁；列出所有球員，規定打席/局數由這裡自己篩
+const POSITION: Record<StatGroup, string> = { batting: '01', pitching: '02' };
+
+export function statsUrl(
+  group: StatGroup,
+  year: number,
+  kindCode = DEFAULT_KIND_CODE
+) {
+  const url = new URL(STATS_SOURCE);
+  url.searchParams.set('year', String(year));
+  url.searchParams.set('kindCode', kindCode);
+  url.searchParams.set('position', POSITION[group]);
+  return url.toString();
+}
+
+// 必要欄位：缺任何一個就視為版面改變
+const REQUIRED_HEADERS: Record<StatGroup, string[]> = {
+  batting: ['打席', '打擊率'],
+  pitching: ['局數', '防禦率'],
+};
+
+// 投球局數 "123.1" → 370 個出局數
+export function parseInnings(s: string): number | null {
+  const m = s.match(/^(\d+)(?:\.([0-2]))?$/);
+  return m ? Number(m[1]) * 3 + Number(m[2] ?? 0) : null;
+}
+
+// 找成績表並讀出各列的球員、球隊與欄位；球隊可能是獨立欄位，也可能只是球員格裡的 logo
+function readStatsTable(html: string, group: StatGroup) {
+  const $ = cheerio.load(html);
+  const table = $('.RecordTable table, .RecordTableWrap table').first();
+  if (!table.length) {
+    throw new ScrapeError('LAYOUT_CHANGED', 'Stats table not found', {
+      expected: '.RecordTable table',
+    });
+  }
+  const { headers, col, rows, cell } = readTable($, table);
+  const missing = REQUIRED_HEADERS[group].filter((kw) => col(kw) < 0);
+  if (missing.length) {
+    throw new ScrapeError('LAYOUT_CHANGED', 'Required headers missing', {
+      missing,
+      headers,
+    });
+  }
+
+  const iPlayer = Math.max(0, col('球員', '選手', '姓名'));
+  const iTeam = col('球隊');
+  const players = rows
+    .map((cells) => {
+      const $player = cells.eq(iPlayer);
+      const $link = $player.find('a[href]').first();
+      const player = ($link.text() || $player.text()).replace(/\s/g, '');
+      const href = $link.attr('href');
+      const team =
+        cell(cells, iTeam) ||
+        $player.find('img').attr('alt') ||
+        $player.find('.team_name').text().trim() ||
+        '';
+      return {
+        cells,
+        base: {
+          player,
+          playerUrl: href ? new URL(href, STATS_SOURCE).toString() : undefined,
+          team,
+          teamId: resolveTeam(team),
+        },
+      };
+    })
+    .filter((r) => r.base.player && !r.base.player.includes('合計'));
+
+  if (!players.length) {
+    throw new ScrapeError('EMPTY_TABLE', 'Stats table has no rows', {
+      headers,
+    });
+  }
+  return { col, cell, players };
+}
+
+export function parseBattingStats(html: string): BattingStats[] {
+  const { col, cell, players } = readStatsTable(html, 'batting');
+  const i = {
+    games: col('出賽數', '出賽'),
+    pa: col('打席'),
+    ab: col('打數'),
+    runs: col('得分'),
+    hits: col('安打'),
+    hr: col('全壘打'),
+    rbi: col('打點'),
+    sb: col('盜壘'),
+    bb: col('四壞', '四壞球'),
+    so: col('三振', '被三振'),
+    avg: col('打擊率'),
+    obp: col('上壘率'),
+    slg: col('長打率'),
+    ops: col('OPS', '整體攻擊指數'),
+  };
+  return players.map(({ cells, base }) => {
+    const num = (k: keyof typeof i) => toNum(cell(cells, i[k]));
+    const obp = num('obp');
+    const slg = num('slg');
+    return {
+      ...base,
+      games: num('games'),
+      pa: num('pa'),
+      ab: num('ab'),
+      runs: num('runs'),
+      hits: num('hits'),
+      hr: num('hr'),
+      rbi: num('rbi'),
+      sb: num('sb'),
+      bb: num('bb'),
+      so: num('so'),
+      avg: num('avg'),
+      obp,
+      slg,
+      // 沒有 OPS 欄位時由上壘率＋長打率算出
+      ops:
+        num('ops') ??
+        (obp !== null && slg !== null ? Number((obp + slg).toFixed(3)) : null),
+    };
+  });
+}
+
+export function parsePitchingStats(html: string): PitchingStats[] {
+  const { col, cell, players } = readStatsTable(html, 'pitching');
+  const i = {
+    games: col('出賽數', '出賽'),
+    ip: col('投球局數', '局數'),
+    wins: col('勝投', '勝場'),
+    losses: col('敗投', '敗場'),
+    saves: col('救援成功', '救援'),
+    holds: col('中繼成功', '中繼'),
+    hits: col('被安打'),
+    hr: col('被全壘打'),
+    bb: col('四壞', '四壞球'),
+    so: col('奪三振', '三振'),
+    runs: col('失分'),
+    er: col('自責分'),
+    era: col('防禦率'),
+    whip: col('WHIP', '每局被上壘率'),
+  };
+  return players.map(({ cells, base }) => {
+    const num = (k: keyof typeof i) => toNum(cell(cells, i[k]));
+    const outs = parseInnings(cell(cells, i.ip));
+    const hits = num('hits');
+    const bb = num('bb');
+    return {
+      ...base,
+      games: num('games'),
+      outs,
+      wins: num('wins'),
+      losses: num('losses'),
+      saves: num('saves'),
+      holds: num('holds'),
+      hits,
+      hr: num('hr'),
+      bb,
+      so: num('so'),
+      runs: num('runs'),
+      er: num('er'),
+      era: num('era'),
+      // 沒有 WHIP 欄位時由（四壞＋被安打）÷ 局數算出
+      whip:
+        num('whip') ??
+        (outs && hits !== null && bb !== null
+          ? Number((((bb + hits) * 3) / outs).toFixed(2))
+          : null),
+    };
+  });
+}
+
+export async function loadBattingStats(year: number, kindCode?: string) {
+  return parseBattingStats(
+    await fetchCpblPage(statsUrl('batting', year, kindCode))
+  );
+}
+
+export async function loadPitchingStats(year: number, kindCode?: string) {
+  return parsePitchingStats(
+    await fetchCpblPage(statsUrl('pitching', year, kindCode))
+  );
+}
+
+type StatsRow = BattingStats | PitchingStats;
+
+// 是否達規定打席/局數；不知道所屬球隊的出賽數時視為未達
+function isQualified(
+  group: StatGroup,
+  row: StatsRow,
+  teamGames: Map<TeamId, number>
+) {
+  const games = row.teamId ? teamGames.get(row.teamId) : undefined;
+  if (games === undefined) return false;
+  return group === 'batting'
+    ? ((row as BattingStats).pa ?? 0) >= games * QUALIFY_PA_PER_GAME
+    : ((row as PitchingStats).outs ?? 0) >= games * QUALIFY_OUTS_PER_GAME;
+}
+
+// 依項目排序取前 limit 名；同數值同名次（1, 2, 2, 4…）
+export function rankLeaders(
+  category: LeaderCategory,
+  rows: StatsRow[],
+  { limit, teamGames }: { limit: number; teamGames: Map<TeamId, number> | null }
+): LeaderBoard {
+  const def = LEADER_CATEGORIES[category];
+  const qualifiedOnly = Boolean('rate' in def && def.rate && teamGames);
+  const asc = 'asc' in def && def.asc;
+
+  const sorted = rows
+    .filter((r) => !qualifiedOnly || isQualified(def.group, r, teamGames!))
+    .map((r) => ({ r, value: (r as Record<string, unknown>)[def.stat] }))
+    .filter((x): x is { r: StatsRow; value: number } =>
+      Number.isFinite(x.value)
+    )
+    // 累計類項目的 0（例如沒有救援的先發投手）不列入
+    .filter((x) => ('rate' in def && def.rate) || x.value > 0)
+    .sort((a, b) => (asc ? a.value - b.value : b.value - a.value));
+
+  const leaders: LeaderEntry[] = [];
+  for (const [i, { r, value }] of sorted.slice(0, limit).entries()) {
+    const prev = leaders[i - 1];
+    leaders.push({
+      rank: prev && prev.value === value ? prev.rank : i + 1,
+      player: r.player,
+      playerUrl: r.playerUrl,
+      team: r.team,
+      teamId: r.teamId,
+      value,
+    });
+  }
+  return { category, group: def.group, qualifiedOnly, leaders };
+}
+
+// 依查詢條件抓需要的成績頁並排出各項目排行榜；
+// 比率類要球隊出賽數判斷規定打席/局數，戰績抓不到時改列全部球員（qualifiedOnly 為 false）
+export async function loadLeaders(query: LeadersQuery) {
+  const groups = new Set(
+    query.categories.map((c) => LEADER_CATEGORIES[c].group)
+  );
+  const needsGames =
+    query.qualified &&
+    query.categories.some((c) => 'rate' in LEADER_CATEGORIES[c]);
+
+  const [batting, pitching, standings] = await Promise.all([
+    groups.has('batting') ? loadBattingStats(query.year, query.kindCode) : null,
+    groups.has('pitching')
+      ? loadPitchingStats(query.year, query.kindCode)
+      : null,
+    needsGames
+      ? loadStandings({
+          year: query.year,
+          kindCode: query.kindCode,
+          half: 0,
+        }).catch((e) => {
+          if (!(e instanceof ScrapeError)) throw e;
+          return null;
+        })
+      : null,
+  ]);
+
+  const teamGames = standings
+    ? new Map(
+        standings.parsed.rows
+          .filter((r) => r.teamId && r.games !== null)
+          .map((r) => [r.teamId!, r.games!] as const)
+      )
+    : null;
+
+  const byTeam = <T extends StatsRow>(rows: T[] | null) =>
+    (rows ?? []).filter((r) => !query.team || r.teamId === query.team);
+
+  const boards = query.categories.map((c) =>
+    rankLeaders(
+      c,
+      LEADER_CATEGORIES[c].group === 'batting'
+        ? byTeam(batting)
+        : byTeam(pitching),
+      { limit: query.limit, teamGames }
+    )
+  );
+
+  const source: Partial<Record<StatGroup, string>> = {};
+  for (const g of groups) source[g] = statsUrl(g, query.year, query.kindCode);
+
+  return { source, boards };
+}
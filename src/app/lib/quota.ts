@@ -0,0 +1,89 @@
+// YouTube Data API 配額帳：記錄當天已花掉的單位數，快用完時讓呼叫端改用快取（僅供伺服端使用）
+//
+// YouTube 的每日配額在太平洋時間午夜重置；這裡只記本行程發出的請求，
+// 多個伺服器實例或另外跑的 sync/notify 指令各自記帳，實際用量可能更高
+
+// 各 API 每次呼叫的成本（https://developers.google.com/youtube/v3/determine_quota_cost）
+export const QUOTA_COST = {
+  playlistItems: 1,
+  videos: 1,
+} as const;
+
+export type QuotaEndpoint = keyof typeof QUOTA_COST;
+
+// 用到預算的這個比例後進入節約模式：能用快取（即使過期）就用快取
+const CONSERVE_RATIO = 0.9;
+
+// 每日預算：預設是 YouTube 專案的標準配額 10,000，可用 YOUTUBE_QUOTA_BUDGET 調低留給其他用途
+export function quotaBudget() {
+  const n = Number(process.env.YOUTUBE_QUOTA_BUDGET);
+  return Number.isFinite(n) && n > 0 ? n : 10000;
+}
+
+// 配額日（太平洋時間的日期）
+export function quotaDay(now = new Date()) {
+  return now.toLocaleDateString('en-CA', { timeZone: 'America/Los_Angeles' });
+}
+
+type Ledger = {
+  day: string;
+  used: number;
+  calls: Partial<Record<QuotaEndpoint, number>>;
+  exhausted: boolean; // YouTube 已回 quotaExceeded，今天不再打
+};
+
+let ledger: Ledger = { day: quotaDay(), used: 0, calls: {}, exhausted: false };
+
+// 換日就重新記帳
+function current() {
+  const day = quotaDay();
+  if (ledger.day !== day) {
+    ledger = { day, used: 0, calls: {}, exhausted: false };
+  }
+  return ledger;
+}
+
+// 預算不夠或 YouTube 已回報配額用完時丟出
+export class QuotaExhaustedError extends Error {
+  constructor() {
+    super('YouTube quota exhausted');
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+// 記一筆呼叫；預算不夠時丟出 QuotaExhaustedError，不發出請求
+export function spend(endpoint: QuotaEndpoint) {
+  const l = current();
+  const cost = QUOTA_COST[endpoint];
+  if (l.exhausted || l.used + cost > quotaBudget()) {
+    throw new QuotaExhaustedError();
+  }
+  l.used += cost;
+  l.calls[endpoint] = (l.calls[endpoint] ?? 0) + 1;
+}
+
+// YouTube 回了 quotaExceeded：不管帳上還剩多少，今天都視為用完
+export function markExhausted() {
+  current().exhausted = true;
+}
+
+// 是否該節約（快取過期也照用）
+export function shouldConserve() {
+  const l = current();
+  return l.exhausted || l.used >= quotaBudget() * CONSERVE_RATIO;
+}
+
+export function quotaStatus() {
+  const l = current();
+  const budget = quotaBudget();
+  return {
+    day: l.day,
+    timeZone: 'America/Los_Angeles',
+    budget,
+    used: l.used,
+    remaining: l.exhausted ? 0 : Math.max(0, budget - l.used),
+    calls: { ...l.calls },
+    conserving: shouldConserve(),
+    exhausted: l.exhausted || l.used >= budget,
+  };
+}
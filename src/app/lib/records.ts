@@ -0,0 +1,146 @@
+// /api/records 的共用型別（路由與前端元件共用）
+import type { TeamId } from './teams';
+
+// 單一球隊的戰績列：數值欄位轉成 number（解析失敗為 null），其餘保留官網原文
+export type StandingRow = {
+  rank: number | null;
+  team: string;
+  teamId: TeamId | null;
+  teamUrl?: string;
+  games: number | null;
+  wins: number | null;
+  draws: number | null;
+  losses: number | null;
+  winRate: number | null;
+  gb: string;
+  elim: string;
+  streak: string;
+  last10: string;
+};
+
+// 抓取/解析失敗的分類
+export type ScrapeErrorCode =
+  | 'SOURCE_UNAVAILABLE'
+  | 'LAYOUT_CHANGED'
+  | 'EMPTY_TABLE';
+
+// 錯誤回應（沒有可用的舊資料時）
+export type StandingsErrorBody = {
+  error: string;
+  code: ScrapeErrorCode;
+  details: Record<string, unknown>;
+};
+
+// 官網出問題但有舊資料可用時附上的警告；updatedAt 會是舊資料的時間
+export type StandingsWarning = Omit<StandingsErrorBody, 'error'> & {
+  message: string;
+};
+
+// 由勝和敗推算的進階數據（lib/standingsAnalytics）；無法計算的欄位為 null
+export type TeamAnalytics = {
+  gb: number | null; // 數值勝差，領先球隊為 0
+  remaining: number | null; // 剩餘場數
+  magic: number | null; // 魔術數字（只有領先球隊有）
+  elim: number | null; // 淘汰數字（領先球隊為 null）
+  projected: { wins: number; draws: number; losses: number } | null; // 依目前比例推估的全季戰績
+  firstOdds: number | null; // 模擬結果：拿到第一名的機率（0–1）
+  playoffOdds: number | null; // 模擬結果：進入前 playoffSpots 名的機率（0–1）
+};
+
+export type StandingsAnalytics = {
+  seasonGames: number;
+  playoffSpots: number;
+  // 沒有對戰矩陣時不模擬；gamesPerPair 為模擬假設的每組對戰總場數
+  // （季賽場數平均分給其他球隊的近似值，不是官方賽程），剩餘場次＝gamesPerPair − 已交手場數
+  simulation: { runs: number; seed: number; gamesPerPair: number } | null;
+  teams: TeamAnalytics[]; // 與 rows 同順序
+};
+
+// GET /api/records 回應
+export type RecordsResponse = {
+  source: string;
+  query: StandingsQuery;
+  updatedAt: string;
+  rows: StandingRow[];
+  analytics: StandingsAnalytics;
+  warning?: StandingsWarning;
+};
+
+// 對戰成績（某隊對上某對手的 勝-和-敗）
+export type HeadToHead = {
+  wins: number;
+  draws: number;
+  losses: number;
+};
+
+// GET /api/records/h2h 回應：matrix[i][j] 為 teams[i] 對 teams[j] 的成績，自己對自己為 null
+export type HeadToHeadResponse = {
+  source: string;
+  query: StandingsQuery;
+  updatedAt: string;
+  teams: string[];
+  teamIds: (TeamId | null)[];
+  matrix: (HeadToHead | null)[][];
+  warning?: StandingsWarning;
+};
+
+// 賽季查詢條件：year 年度、kindCode 賽事類別（A=一軍例行賽）、half 0=全年 1=上半季 2=下半季
+export type Half = 0 | 1 | 2;
+export type StandingsQuery = {
+  year: number;
+  kindCode: string;
+  half: Half;
+};
+
+export const FIRST_SEASON_YEAR = 1990;
+export const DEFAULT_KIND_CODE = 'A';
+
+// 解析 ?year=&kindCode=&half= ；不合法時回傳錯誤訊息字串
+export function parseStandingsQuery(
+  params: URLSearchParams
+): StandingsQuery | string {
+  const thisYear = new Date().getFullYear();
+
+  const yearIn = params.get('year');
+  const year = yearIn ? Number(yearIn) : thisYear;
+  if (!Number.isInteger(year) || year < FIRST_SEASON_YEAR || year > thisYear) {
+    return `Invalid year: ${yearIn}`;
+  }
+
+  const kindCode = (params.get('kindCode') ?? DEFAULT_KIND_CODE).toUpperCase();
+  if (!/^[A-Z]$/.test(kindCode)) return `Invalid kindCode: ${kindCode}`;
+
+  const halfIn = params.get('half') ?? '0';
+  if (!['0', '1', '2'].includes(halfIn)) return `Invalid half: ${halfIn}`;
+
+  return { year, kindCode, half: Number(halfIn) as Half };
+}
+
+// 轉回查詢字串（給前端呼叫 API 用）
+export function standingsSearchParams(q: StandingsQuery) {
+  return new URLSearchParams({
+    year: String(q.year),
+    kindCode: q.kindCode,
+    half: String(q.half),
+  });
+}
+
+// 戰績走勢：某日快照中的排名、勝率與勝差（勝差已轉成數字，領先球隊為 0）
+export type TrendPoint = {
+  date: string; // YYYY-MM-DD（台灣時間）
+  rank: number | null;
+  winRate: number | null;
+  gb: number | null;
+};
+
+export type TeamTrend = {
+  team: string;
+  teamId: TeamId | null;
+  points: TrendPoint[];
+};
+
+// GET /api/records/history 回應
+export type HistoryResponse = {
+  query: StandingsQuery;
+  trends: TeamTrend[];
+};
@@ -0,0 +1,88 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { ScrapeError } from './cpbl';
+import { parseGameStatus, parseSchedule } from './schedule';
+
+const recorded = (date: string) =>
+  readFileSync(`fixtures/cpbl/schedule__date=${date}_kindCode=A.html`, 'utf8');
+
+describe('parseSchedule', () => {
+  it('parses final and postponed games', () => {
+    const games = parseSchedule(recorded('2025-06-14'), '2025-06-14');
+    expect(games).toHaveLength(3);
+    expect(games[0]).toEqual({
+      gameNo: 121,
+      date: '2025-06-14',
+      time: '17:05',
+      venue: '新莊',
+      awayTeam: '中信兄弟',
+      awayTeamId: 'brothers',
+      homeTeam: '統一7-ELEVEn獅',
+      homeTeamId: 'lions',
+      score: { away: 3, home: 5 },
+      status: 'final',
+      statusText: '比賽結束',
+      boxUrl:
+        'https://www.cpbl.com.tw/box/index?gameSno=121&year=2025&kindCode=A',
+      highlightId: null,
+    });
+    expect(games[1]).toMatchObject({ score: { away: 2, home: 2 } });
+    expect(games[2]).toMatchObject({
+      status: 'postponed',
+      score: null,
+      boxUrl: undefined,
+    });
+  });
+
+  it('parses live and scheduled games', () => {
+    const games = parseSchedule(recorded('2025-06-15'), '2025-06-15');
+    expect(games.map((g) => [g.gameNo, g.status, g.score])).toEqual([
+      [124, 'live', { away: 1, home: 0 }],
+      [125, 'scheduled', null],
+      [126, 'scheduled', null],
+    ]);
+  });
+
+  it('resolves team aliases from logo alt and title text', () => {
+    const games = parseSchedule(recorded('2025-06-15'), '2025-06-15');
+    expect(
+      games.map((g) => [g.awayTeam, g.awayTeamId, g.homeTeam, g.homeTeamId])
+    ).toEqual([
+      ['統一獅', 'lions', '兄弟', 'brothers'],
+      ['Lamigo桃猿', 'monkeys', '味全', 'dragons'],
+      ['富邦悍將', 'guardians', '台鋼雄鷹', 'hawks'],
+    ]);
+  });
+
+  it('returns no games for an empty day and rejects a changed layout', () => {
+    expect(
+      parseSchedule('<div class="ScheduleTableList"></div>', '2025-06-16')
+    ).toEqual([]);
+    expect(() => parseSchedule('<div></div>', '2025-06-16')).toThrow(
+      ScrapeError
+    );
+    const noNames = recorded('2025-06-14').replace(
+      /class="name"/g,
+      'class="x"'
+    );
+    expect(() => parseSchedule(noNames, '2025-06-14')).toThrow(
+      'Game card shape mismatch'
+    );
+  });
+});
+
+describe('parseGameStatus', () => {
+  it.each([
+    ['比賽結束', true, 'final'],
+    ['終場', true, 'final'],
+    ['延賽', false, 'postponed'],
+    ['保留比賽', true, 'postponed'],
+    ['7局上', true, 'live'],
+    ['', true, 'live'],
+    ['比賽中', false, 'live'],
+    ['', false, 'scheduled'],
+    ['未開賽', false, 'scheduled'],
+  ] as const)('%s (score: %s) → %s', (text, hasScore, status) => {
+    expect(parseGameStatus(text, hasScore)).toBe(status);
+  });
+});
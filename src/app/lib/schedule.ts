@@ -0,0 +1,104 @@
+// CPBL 官網賽程頁的抓取與解析（僅供伺服端路由使用）
+import * as cheerio from 'cheerio';
+import { CPBL_BASE, ScrapeError, clean, fetchCpblPage, toNum } from './cpbl';
+import type { Game, GameStatus } from './games';
+import { resolveTeam } from './teams';
+import { createTtlCache } from './ttlCache';
+
+export const SCHEDULE_SOURCE = `${CPBL_BASE}/schedule`;
+
+// 同一天的賽程在這段時間內重複要直接用快取（球隊頁每次要看 7 天）；比賽中的比數最多慢這麼久
+const SCHEDULE_CACHE_TTL_MS = 60 * 1000;
+
+// 官網以 date=YYYY/MM/DD 切換日期，kindCode 同戰績頁（A 一軍例行賽）
+export function scheduleUrl(date: string, kindCode = 'A') {
+  const url = new URL(SCHEDULE_SOURCE);
+  url.searchParams.set('date', date.replace(/-/g, '/'));
+  url.searchParams.set('kindCode', kindCode);
+  return url.toString();
+}
+
+// 依官網狀態文字判斷比賽狀態；有比數但未結束視為比賽中
+export function parseGameStatus(text: string, hasScore: boolean): GameStatus {
+  if (/延賽|保留|取消|暫停/.test(text)) return 'postponed';
+  if (/比賽結束|終場|結束/.test(text)) return 'final';
+  if (hasScore || /局|比賽中/.test(text)) return 'live';
+  return 'scheduled';
+}
+
+// 解析某日賽程；找不到賽程區塊視為版面改變，當天沒有比賽則回傳空陣列
+export function parseSchedule(html: string, date: string): Game[] {
+  const $ = cheerio.load(html);
+
+  const list = $('.ScheduleTableList').first();
+  if (!list.length) {
+    throw new ScrapeError('LAYOUT_CHANGED', 'Schedule block not found', {
+      expected: '.ScheduleTableList',
+    });
+  }
+
+  const games: Game[] = [];
+  list.find('.game_item').each((i, el) => {
+    const $g = $(el);
+    const side = (cls: string) => {
+      const $t = $g.find(`.team.${cls}`).first();
+      const name = clean(
+        $t.find('.name').text() ||
+          $t.find('img').attr('alt') ||
+          $t.find('[title]').attr('title') ||
+          ''
+      );
+      return { name, score: toNum(clean($t.find('.score').text())) };
+    };
+    const away = side('away');
+    const home = side('home');
+
+    // 少了隊名代表卡片結構變了
+    if (!away.name || !home.name) {
+      throw new ScrapeError('LAYOUT_CHANGED', 'Game card shape mismatch', {
+        game: i + 1,
+        away: away.name,
+        home: home.name,
+      });
+    }
+
+    const score =
+      away.score !== null && home.score !== null
+        ? { away: away.score, home: home.score }
+        : null;
+    const statusText = clean($g.find('.game_status').text());
+    const boxHref = $g.find('a.box_link').attr('href');
+
+    games.push({
+      gameNo: toNum(clean($g.find('.game_no').text()).replace(/\D/g, '')),
+      date,
+      time: clean($g.find('.time').text()),
+      venue: clean($g.find('.place').text()),
+      awayTeam: away.name,
+      awayTeamId: resolveTeam(away.name),
+      homeTeam: home.name,
+      homeTeamId: resolveTeam(home.name),
+      score,
+      status: parseGameStatus(statusText, score !== null),
+      statusText,
+      boxUrl: boxHref
+        ? new URL(boxHref, SCHEDULE_SOURCE).toString()
+        : undefined,
+      highlightId: null,
+    });
+  });
+
+  return games;
+}
+
+// 賽程快取，key 為日期
+export const scheduleCache = createTtlCache<Game[]>({
+  ttlMs: SCHEDULE_CACHE_TTL_MS,
+});
+
+// 抓取並解析某日（YYYY-MM-DD，台灣時間）的一軍賽程；同一天的並行請求合併成一次
+export async function loadSchedule(date: string) {
+  return scheduleCache.get(date, async () =>
+    parseSchedule(await fetchCpblPage(scheduleUrl(date)), date)
+  );
+}
@@ -0,0 +1,9 @@
+// 伺服端取得目前語系：cookie 優先，其次 Accept-Language（僅供 Server Component / 路由使用）
+import { cookies, headers } from 'next/headers';
+import { LOCALE_COOKIE, isLocale, matchLocale, type Locale } from './i18n';
+
+export async function getLocale(): Promise<Locale> {
+  const saved = (await cookies()).get(LOCALE_COOKIE)?.value;
+  if (isLocale(saved)) return saved;
+  return matchLocale((await headers()).get('accept-language'));
+}
@@ -0,0 +1,117 @@
+// 影片來源登錄表：影片類型 → YouTube 播放清單/頻道與標題篩選條件（僅供伺服端使用）
+//
+// 設定檔（HIGHLIGHT_SOURCES_PATH，預設 data/sources.json），沒寫到的類型沿用內建預設：
+//   {
+//     "topplays": { "playlistId": "PL...", "mustAll": ["美技"] },
+//     "recap": { "channelId": "UC...", "mustAll": ["CPBL TV"] }
+//   }
+// 也可用環境變數 YOUTUBE_PLAYLIST_<TYPE>（例如 YOUTUBE_PLAYLIST_TOPPLAYS）只覆寫播放清單
+// 指定頻道時讀頻道的「上傳的影片」清單（UC… → UU…），再以 mustAll 篩出該類型的影片
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  CONTENT_TYPES,
+  DEFAULT_CONTENT_TYPE,
+  isContentType,
+  type ContentTypeId,
+} from './contentTypes';
+import type { Video } from './highlights';
+import { FULLGAME_PLAYLIST_ID } from './youtube';
+
+export type HighlightSource = {
+  type: ContentTypeId;
+  playlistId: string;
+  mustAll: string[]; // 標題必須包含的字串（小寫）
+};
+
+type SourceConfig = {
+  playlistId?: string;
+  channelId?: string;
+  mustAll?: string[];
+};
+
+// 內建只知道全場精華播放清單；其他類型需要設定後才會出現
+const DEFAULTS: Partial<Record<ContentTypeId, SourceConfig>> = {
+  fullgame: { playlistId: FULLGAME_PLAYLIST_ID, mustAll: ['全場精華'] },
+};
+
+export function sourcesPath() {
+  return (
+    process.env.HIGHLIGHT_SOURCES_PATH ??
+    path.join(process.cwd(), 'data', 'sources.json')
+  );
+}
+
+// 某類型沒有設定來源時丟出
+export class SourceNotConfiguredError extends Error {
+  constructor(public type: ContentTypeId) {
+    super(`No source configured for type: ${type}`);
+    this.name = 'SourceNotConfiguredError';
+  }
+}
+
+// 頻道 id 對應的「上傳的影片」播放清單
+const uploadsPlaylist = (channelId: string) =>
+  channelId.startsWith('UC') ? `UU${channelId.slice(2)}` : null;
+
+async function readConfig(file: string) {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as Record<
+      string,
+      SourceConfig
+    >;
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return {};
+    throw e;
+  }
+}
+
+// 讀取所有已設定的來源（依 CONTENT_TYPES 的順序）；設定檔格式錯誤直接丟出
+export async function loadSources(
+  file = sourcesPath()
+): Promise<HighlightSource[]> {
+  const config = await readConfig(file);
+  for (const key of Object.keys(config)) {
+    if (!isContentType(key)) throw new Error(`sources: unknown type ${key}`);
+  }
+
+  const sources: HighlightSource[] = [];
+  for (const { id } of CONTENT_TYPES) {
+    const c = { ...DEFAULTS[id], ...config[id] };
+    const env = process.env[`YOUTUBE_PLAYLIST_${id.toUpperCase()}`];
+    const playlistId =
+      env ||
+      (config[id]?.channelId
+        ? uploadsPlaylist(config[id].channelId!)
+        : c.playlistId);
+    if (config[id]?.channelId && !env && !playlistId) {
+      throw new Error(`sources.${id}: invalid channelId`);
+    }
+    if (!playlistId) continue;
+    sources.push({
+      type: id,
+      playlistId,
+      mustAll: (c.mustAll ?? []).map((s) => s.toLowerCase()).filter(Boolean),
+    });
+  }
+  return sources;
+}
+
+export async function getSource(
+  type: ContentTypeId = DEFAULT_CONTENT_TYPE
+): Promise<HighlightSource> {
+  const source = (await loadSources()).find((s) => s.type === type);
+  if (!source) throw new SourceNotConfiguredError(type);
+  return source;
+}
+
+// 有設定來源的類型（首頁分頁用）
+export async function availableTypes(): Promise<ContentTypeId[]> {
+  return (await loadSources()).map((s) => s.type);
+}
+
+// 標題是否符合該來源的 mustAll（頻道上傳清單混有各種影片，靠標題分出類型）
+export function matchesSource(source: HighlightSource, v: Video) {
+  const t = (v.title || '').toLowerCase();
+  return source.mustAll.every((m) => t.includes(m));
+}
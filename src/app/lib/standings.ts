@@ -0,0 +1,272 @@
+// CPBL 官網戰績頁的抓取與解析（僅供伺服端路由使用）
+import * as cheerio from 'cheerio';
+import { CPBL_BASE, ScrapeError, clean, fetchCpblPage, toNum } from './cpbl';
+import type {
+  HeadToHead,
+  RecordsResponse,
+  StandingRow,
+  StandingsQuery,
+  StandingsWarning,
+} from './records';
+import { computeAnalytics, seedFrom } from './standingsAnalytics';
+import { readLatestSnapshot, recordSnapshot } from './standingsHistory';
+import { resolveTeam, type TeamId } from './teams';
+
+export const SOURCE = `${CPBL_BASE}/standings/season`;
+
+// 官網以 year / kindCode / season（0 全年、1 上半季、2 下半季）切換賽季，歷年資料也走同一頁
+export function standingsUrl(q: StandingsQuery) {
+  const url = new URL(SOURCE);
+  url.searchParams.set('year', String(q.year));
+  url.searchParams.set('kindCode', q.kindCode);
+  url.searchParams.set('season', String(q.half));
+  return url.toString();
+}
+
+// 抓取官網戰績頁
+export function fetchStandingsPage(q: StandingsQuery) {
+  return fetchCpblPage(standingsUrl(q));
+}
+
+// 「勝-和-敗」拆成三個數字，例如 "30-2-25"
+function parseWDL(s: string) {
+  const [w, d, l] = s.split('-').map((x) => toNum(x.trim()));
+  return { wins: w ?? null, draws: d ?? null, losses: l ?? null };
+}
+
+// 對戰格子：三個數字都要有才算，否則（例如自己對自己的 "-"）為 null
+function parseHeadToHead(s: string): HeadToHead | null {
+  const { wins, draws, losses } = parseWDL(s);
+  if (wins === null || draws === null || losses === null) return null;
+  return { wins, draws, losses };
+}
+
+export type ParsedStandings = {
+  rows: StandingRow[];
+  h2h: {
+    teams: string[];
+    teamIds: (TeamId | null)[];
+    matrix: (HeadToHead | null)[][];
+  };
+};
+
+// 必要欄位：缺任何一個就視為版面改變（淘汰指數、連勝/連敗可缺）
+const REQUIRED_HEADERS = ['出賽數', '勝-和-敗', '勝率', '勝差', '近十場'];
+
+// 解析「球隊對戰戰績」表；版面不符或沒有資料時丟出 ScrapeError
+export function parseStandings(html: string): ParsedStandings {
+  const $ = cheerio.load(html);
+
+  // 找「球隊對戰戰績」區塊
+  const wrap = $('.RecordTableWrap')
+    .filter((_, el) =>
+      $(el).find('.record_table_caption').text().includes('球隊對戰戰績')
+    )
+    .first();
+  if (!wrap.length) {
+    throw new ScrapeError('LAYOUT_CHANGED', 'Standings block not found', {
+      expected: '.RecordTableWrap 球隊對戰戰績',
+    });
+  }
+
+  const table = wrap.find('table').first();
+  const headerRow = table.find('tr').first();
+  const headerCells = headerRow.children('th');
+  const headers = headerCells
+    .map((_, th) => $(th).text().replace(/\s/g, ''))
+    .get();
+
+  // 先確認必要欄位都在，避免 idx() 回傳 -1 時 cells.eq(-1) 默默取到最後一欄
+  const missing = REQUIRED_HEADERS.filter(
+    (kw) => !headers.some((h) => h.includes(kw))
+  );
+  if (missing.length) {
+    throw new ScrapeError('LAYOUT_CHANGED', 'Required headers missing', {
+      missing,
+      headers,
+    });
+  }
+
+  // 依表頭找欄位索引（避免官網微調順序就崩壞）
+  const idx = (kw: string) => headers.findIndex((h) => h.includes(kw));
+  const iGames = idx('出賽數');
+  const iWDL = idx('勝-和-敗');
+  const iWinRate = idx('勝率');
+  const iGB = idx('勝差');
+  const iElim = headers.findIndex((h) => h.includes('淘汰'));
+  const iStreak = headers.findIndex(
+    (h) => h.includes('連勝') || h.includes('連敗')
+  );
+  const iLast10 = idx('近十場');
+
+  // 第一欄（排名+球隊）與「出賽數」之間的欄位是各對手；隊名可能只放在 logo 的 alt/title
+  const opponentCols: { index: number; name: string }[] = [];
+  headerCells.each((i, th) => {
+    if (i === 0 || (iGames >= 0 && i >= iGames)) return;
+    const $th = $(th);
+    const name = (
+      $th.text().trim() ||
+      $th.find('img').attr('alt') ||
+      $th.find('[title]').attr('title') ||
+      ''
+    ).replace(/\s/g, '');
+    if (name) opponentCols.push({ index: i, name });
+  });
+
+  const rows: StandingRow[] = [];
+  const h2hCells: string[][] = [];
+
+  // 逐列解析
+  table
+    .find('tr')
+    .slice(1)
+    .each((i, tr) => {
+      const $tr = $(tr);
+      const cells = $tr.children('td,th');
+      if (!cells.length) return;
+
+      // 欄數少於表頭代表列結構變了，取到的欄位會錯位
+      if (cells.length < headers.length) {
+        throw new ScrapeError('LAYOUT_CHANGED', 'Row shape mismatch', {
+          row: i + 1,
+          expectedCells: headers.length,
+          actualCells: cells.length,
+        });
+      }
+
+      // sticky 第一欄：同時含排名 + 球隊
+      const sticky = cells.eq(0);
+      const rank = sticky.find('.rank').text().trim();
+      const team =
+        sticky.find('.team-w-trophy a').text().trim() ||
+        sticky.find('.team-w-trophy').text().trim() ||
+        sticky.text().trim();
+      const teamHref = sticky.find('.team-w-trophy a').attr('href');
+      const teamUrl = teamHref
+        ? new URL(teamHref, SOURCE).toString()
+        : undefined;
+
+      const row: StandingRow = {
+        rank: toNum(clean(rank)),
+        team: clean(team),
+        teamId: resolveTeam(clean(team)),
+        teamUrl,
+        games: toNum(clean(cells.eq(iGames).text())),
+        ...parseWDL(clean(cells.eq(iWDL).text())),
+        winRate: toNum(clean(cells.eq(iWinRate).text())),
+        gb: clean(cells.eq(iGB).text()),
+        elim: iElim >= 0 ? clean(cells.eq(iElim).text()) : '',
+        streak: iStreak >= 0 ? clean(cells.eq(iStreak).text()) : '',
+        last10: clean(cells.eq(iLast10).text()),
+      };
+
+      // 過濾空列
+      if (!row.team) return;
+      rows.push(row);
+      h2hCells.push(opponentCols.map((c) => clean(cells.eq(c.index).text())));
+    });
+
+  if (!rows.length) {
+    throw new ScrapeError('EMPTY_TABLE', 'Standings table has no rows', {
+      headers,
+    });
+  }
+
+  // 對手欄位的隊名可能是簡稱、全名或舊隊名，透過球隊登錄表的別名對回列上的球隊
+  const teams = rows.map((r) => r.team);
+  const teamIds = rows.map((r) => r.teamId);
+  const colOf = rows.map((r) =>
+    opponentCols.findIndex((c) =>
+      r.teamId
+        ? resolveTeam(c.name) === r.teamId
+        : c.name.includes(r.team) || r.team.includes(c.name)
+    )
+  );
+  const matrix = teams.map((_, i) =>
+    teams.map((__, j) => {
+      if (i === j || colOf[j] < 0) return null;
+      return parseHeadToHead(h2hCells[i][colOf[j]] ?? '');
+    })
+  );
+
+  return { rows, h2h: { teams, teamIds, matrix } };
+}
+
+// 最後一次成功解析的結果（依賽季 key 保存在記憶體），官網出問題時拿來頂著
+type LastGood = { parsed: ParsedStandings; fetchedAt: string };
+const lastGood = new Map<string, LastGood>();
+const seasonKey = (q: StandingsQuery) => `${q.year}-${q.kindCode}-${q.half}`;
+
+export type LoadedStandings = LastGood & {
+  warning?: StandingsWarning;
+};
+
+// 抓取並解析戰績；失敗時改用 last-known-good（記憶體 → 戰績快照），兩者都沒有才丟出錯誤
+export async function loadStandings(
+  query: StandingsQuery,
+  { allowSnapshot = true } = {}
+): Promise<LoadedStandings> {
+  const key = seasonKey(query);
+  try {
+    const parsed = parseStandings(await fetchStandingsPage(query));
+    const good = { parsed, fetchedAt: new Date().toISOString() };
+    lastGood.set(key, good);
+    return good;
+  } catch (e) {
+    if (!(e instanceof ScrapeError)) throw e;
+    const warning: StandingsWarning = {
+      code: e.code,
+      message: e.message,
+      details: e.details,
+    };
+
+    const mem = lastGood.get(key);
+    if (mem) return { ...mem, warning };
+
+    // 冷啟動時記憶體沒有資料：退回最近一次的戰績快照（只有戰績列，沒有對戰矩陣）
+    const snap = allowSnapshot
+      ? await readLatestSnapshot(query).catch(() => null)
+      : null;
+    if (snap) {
+      return {
+        parsed: {
+          rows: snap.rows,
+          h2h: { teams: [], teamIds: [], matrix: [] },
+        },
+        fetchedAt: snap.date,
+        warning,
+      };
+    }
+    throw e;
+  }
+}
+
+// /api/records 的回應內容（路由與首頁的伺服端渲染共用）；抓取失敗且沒有舊資料時丟出 ScrapeError
+// seed 省略時由賽季決定，同一份戰績每次算出的機率都一樣
+export async function loadRecords(
+  query: StandingsQuery,
+  { seed = seedFrom(seasonKey(query)) }: { seed?: number } = {}
+): Promise<RecordsResponse> {
+  const { parsed, fetchedAt, warning } = await loadStandings(query);
+
+  // 新抓到的資料存成當日快照供走勢查詢；寫檔失敗（例如唯讀環境）只記錄，不影響本次回應
+  if (!warning) {
+    await recordSnapshot(query, parsed.rows).catch((e) =>
+      console.warn(`[records] snapshot not saved: ${e?.message ?? e}`)
+    );
+  }
+
+  return {
+    source: standingsUrl(query),
+    query,
+    updatedAt: fetchedAt,
+    rows: parsed.rows,
+    analytics: computeAnalytics(parsed.rows, {
+      half: query.half,
+      seed,
+      // 退回快照時沒有對戰矩陣，只算勝差/魔術數字，不跑模擬
+      matrix: parsed.h2h.matrix.length ? parsed.h2h.matrix : null,
+    }),
+    warning,
+  };
+}
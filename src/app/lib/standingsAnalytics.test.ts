@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { HeadToHead, StandingRow } from './records';
+import { computeAnalytics, gamesPerPair } from './standingsAnalytics';
+
+const row = (
+  team: string,
+  wins: number | null,
+  draws: number,
+  losses: number
+): StandingRow => ({
+  rank: 0,
+  team,
+  teamId: null,
+  games: (wins ?? 0) + draws + losses,
+  wins,
+  draws,
+  losses,
+  winRate: null,
+  gb: '',
+  elim: '',
+  streak: '',
+  last10: '',
+});
+
+// 上半季（60 場）打了 40 場的四隊；每組對戰假設 20 場
+const ROWS = [
+  row('甲', 30, 0, 10),
+  row('乙', 25, 2, 13),
+  row('丙', 20, 0, 20),
+  row('丁', 12, 2, 26),
+];
+
+// 每組已交手 13 場
+const MATRIX: (HeadToHead | null)[][] = ROWS.map((_, a) =>
+  ROWS.map((_, b) =>
+    a === b
+      ? null
+      : a < b
+      ? { wins: 7, draws: 0, losses: 6 }
+      : { wins: 6, draws: 0, losses: 7 }
+  )
+);
+
+const analyze = (
+  seed: number,
+  matrix: (HeadToHead | null)[][] | null = MATRIX
+) => computeAnalytics(ROWS, { half: 1, seed, runs: 200, matrix });
+
+describe('computeAnalytics', () => {
+  it('computes games behind, remaining games and magic/elimination numbers', () => {
+    const { seasonGames, teams } = analyze(1);
+    expect(seasonGames).toBe(60);
+    expect(teams.map((t) => t.gb)).toEqual([0, 4, 10, 17]);
+    expect(teams.map((t) => t.remaining)).toEqual([20, 20, 20, 20]);
+    // 乙剩下全勝可到 45 勝，甲要到 46 勝（或乙輸球）才確定第一
+    expect(teams.map((t) => t.magic)).toEqual([16, null, null, null]);
+    expect(teams.map((t) => t.elim)).toEqual([null, 16, 11, 3]);
+  });
+
+  it('projects the season from the current rates', () => {
+    expect(analyze(1).teams.map((t) => t.projected)).toEqual([
+      { wins: 45, draws: 0, losses: 15 },
+      { wins: 38, draws: 3, losses: 19 },
+      { wins: 30, draws: 0, losses: 30 },
+      { wins: 18, draws: 3, losses: 39 },
+    ]);
+  });
+
+  it('gives the same odds for the same seed', () => {
+    const a = analyze(42);
+    expect(analyze(42)).toEqual(a);
+    expect(a.simulation).toEqual({ runs: 200, seed: 42, gamesPerPair: 20 });
+
+    const first = a.teams.map((t) => t.firstOdds!);
+    const playoff = a.teams.map((t) => t.playoffOdds!);
+    expect(first.reduce((s, p) => s + p, 0)).toBeCloseTo(1);
+    expect(playoff.reduce((s, p) => s + p, 0)).toBeCloseTo(3);
+    expect(first[0]).toBeGreaterThan(first[1]);
+    expect(analyze(43).teams.map((t) => t.firstOdds)).not.toEqual(first);
+  });
+
+  it('skips the simulation without a head-to-head table', () => {
+    const { simulation, teams } = analyze(1, null);
+    expect(simulation).toBeNull();
+    expect(teams[0]).toMatchObject({ magic: 16, firstOdds: null });
+  });
+
+  it('leaves everything empty when a record is missing', () => {
+    const result = computeAnalytics([...ROWS, row('戊', null, 0, 0)], {
+      half: 1,
+      seed: 1,
+    });
+    expect(result.simulation).toBeNull();
+    expect(result.teams.every((t) => t.gb === null && t.magic === null)).toBe(
+      true
+    );
+  });
+});
+
+describe('gamesPerPair', () => {
+  it('splits the season evenly between the other teams', () => {
+    expect(gamesPerPair(120, 6)).toBe(24);
+    expect(gamesPerPair(60, 6)).toBe(12);
+    expect(gamesPerPair(60, 4)).toBe(20);
+  });
+});
@@ -0,0 +1,223 @@
+// 由戰績列推算的進階數據：數值勝差、魔術數字/淘汰數字、依目前勝率推估的全季戰績，
+// 以及用剩餘賽程跑蒙地卡羅模擬的第一名/前三名機率（純計算，不做任何 I/O）
+import type {
+  Half,
+  HeadToHead,
+  StandingRow,
+  StandingsAnalytics,
+  TeamAnalytics,
+} from './records';
+
+// 一軍例行賽每隊 120 場（上下半季各 60 場），各隊之間平均分配對戰場次
+export const SEASON_GAMES = 120;
+// 前三名進季後賽（實際制度為上下半季冠軍＋全年勝率，這裡以全年前三名近似）
+export const PLAYOFF_SPOTS = 3;
+export const SIMULATION_RUNS = 2000;
+
+// 每場勝率先加上各 PRIOR_GAMES 場的勝敗再算，避免季初 1.000 / .000 讓模擬失真
+const PRIOR_GAMES = 10;
+
+// 官網的勝率不計和局
+function winPct(wins: number, losses: number) {
+  return wins + losses ? wins / (wins + losses) : 0;
+}
+
+// 可重現的亂數（mulberry32）：同一個 seed 一定得到同一串數字
+export function seededRandom(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// 字串轉成 seed（FNV-1a）；預設以賽季 key 當 seed，同一季同一份戰績的結果固定
+export function seedFrom(s: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+type Record3 = { wins: number; draws: number; losses: number };
+
+// 戰績列三個數字都有才能計算
+function recordOf(r: StandingRow): Record3 | null {
+  if (r.wins === null || r.draws === null || r.losses === null) return null;
+  return { wins: r.wins, draws: r.draws, losses: r.losses };
+}
+
+// 兩隊間的勝差：((甲勝 - 乙勝) + (乙敗 - 甲敗)) / 2
+function gamesBehind(leader: Record3, r: Record3) {
+  return (leader.wins - r.wins + (r.losses - leader.losses)) / 2;
+}
+
+// 剩餘賽程：有對戰矩陣時依每組對戰的剩餘場次，沒有時只知道各隊剩幾場
+type Matchup = { a: number; b: number; games: number };
+
+// 每組對戰的總場數：官網沒有提供剩餘賽程，假設季賽場數平均分給其他球隊（六隊時全年每組 24 場）；
+// 實際賽程不一定整除，結果是近似值，會隨回應的 simulation.gamesPerPair 一起揭露
+export function gamesPerPair(seasonGames: number, teams: number) {
+  return Math.round(seasonGames / Math.max(1, teams - 1));
+}
+
+function remainingMatchups(
+  records: Record3[],
+  matrix: (HeadToHead | null)[][] | null,
+  perPair: number
+): Matchup[] | null {
+  if (!matrix || matrix.length !== records.length) return null;
+  const out: Matchup[] = [];
+  for (let a = 0; a < records.length; a++) {
+    for (let b = a + 1; b < records.length; b++) {
+      const h = matrix[a][b];
+      if (!h) return null;
+      const left = perPair - (h.wins + h.draws + h.losses);
+      if (left > 0) out.push({ a, b, games: left });
+    }
+  }
+  return out;
+}
+
+// 模擬剩餘賽程：每場以 log5 估勝率、和局比率用全聯盟目前的和局率；
+// 名次依勝率排序，同勝率隨機決定
+function simulate(
+  records: Record3[],
+  matchups: Matchup[],
+  { runs, seed, spots }: { runs: number; seed: number; spots: number }
+) {
+  const rand = seededRandom(seed);
+  const n = records.length;
+  const strength = records.map(
+    (r) => (r.wins + PRIOR_GAMES) / (r.wins + r.losses + 2 * PRIOR_GAMES)
+  );
+  const played = records.reduce((s, r) => s + r.wins + r.draws + r.losses, 0);
+  const drawRate = played
+    ? records.reduce((s, r) => s + r.draws, 0) / played
+    : 0;
+
+  const first = new Array<number>(n).fill(0);
+  const top = new Array<number>(n).fill(0);
+  for (let run = 0; run < runs; run++) {
+    const w = records.map((r) => r.wins);
+    const l = records.map((r) => r.losses);
+    for (const { a, b, games } of matchups) {
+      const pa = strength[a];
+      const pb = strength[b];
+      const aWins = (pa * (1 - pb)) / (pa * (1 - pb) + pb * (1 - pa));
+      for (let g = 0; g < games; g++) {
+        if (rand() < drawRate) continue;
+        if (rand() < aWins) {
+          w[a]++;
+          l[b]++;
+        } else {
+          w[b]++;
+          l[a]++;
+        }
+      }
+    }
+    const order = records
+      .map((_, i) => ({ i, pct: winPct(w[i], l[i]), tie: rand() }))
+      .sort((x, y) => y.pct - x.pct || x.tie - y.tie);
+    first[order[0].i]++;
+    order.slice(0, spots).forEach(({ i }) => top[i]++);
+  }
+  return { first: first.map((c) => c / runs), top: top.map((c) => c / runs) };
+}
+
+export type AnalyticsOptions = {
+  half: Half;
+  seed: number;
+  runs?: number;
+  matrix?: (HeadToHead | null)[][] | null; // 與 rows 同順序的對戰矩陣
+};
+
+// 計算各隊進階數據（與 rows 同順序）；有任何一隊缺勝和敗就全部留空
+export function computeAnalytics(
+  rows: StandingRow[],
+  { half, seed, runs = SIMULATION_RUNS, matrix = null }: AnalyticsOptions
+): StandingsAnalytics {
+  const seasonGames = half ? SEASON_GAMES / 2 : SEASON_GAMES;
+  const empty: TeamAnalytics = {
+    gb: null,
+    remaining: null,
+    magic: null,
+    elim: null,
+    projected: null,
+    firstOdds: null,
+    playoffOdds: null,
+  };
+  const records = rows.map(recordOf);
+  if (!records.length || records.some((r) => !r)) {
+    return {
+      seasonGames,
+      playoffSpots: PLAYOFF_SPOTS,
+      simulation: null,
+      teams: rows.map(() => empty),
+    };
+  }
+  const recs = records as Record3[];
+
+  // 領先球隊以勝率判斷（不一定是官網排序的第一列）
+  const leader = recs.reduce(
+    (best, r, i) =>
+      winPct(r.wins, r.losses) > winPct(recs[best].wins, recs[best].losses)
+        ? i
+        : best,
+    0
+  );
+  const remaining = recs.map((r) =>
+    Math.max(0, seasonGames - r.wins - r.draws - r.losses)
+  );
+  // 某隊剩下全勝時最多能拿到的勝場
+  const maxWins = recs.map((r, i) => r.wins + remaining[i]);
+
+  // 魔術數字：領先球隊自己的勝場＋對手的敗場合計達到這個數就確定第一；
+  // 以勝場數比較，和局多的球隊勝率會略有出入，僅供參考
+  const magic = Math.max(
+    0,
+    ...recs.map((_, i) =>
+      i === leader ? 0 : maxWins[i] - recs[leader].wins + 1
+    )
+  );
+
+  const perPair = gamesPerPair(seasonGames, recs.length);
+  const matchups = remainingMatchups(recs, matrix, perPair);
+  const odds = matchups
+    ? simulate(recs, matchups, { runs, seed, spots: PLAYOFF_SPOTS })
+    : null;
+
+  return {
+    seasonGames,
+    playoffSpots: PLAYOFF_SPOTS,
+    simulation: odds ? { runs, seed, gamesPerPair: perPair } : null,
+    teams: recs.map((r, i) => {
+      const played = r.wins + r.draws + r.losses;
+      // 依目前的勝/和/敗比例把剩餘場次攤開
+      const pace = (x: number) =>
+        played ? Math.round(x + (remaining[i] * x) / played) : x;
+      const wins = pace(r.wins);
+      const draws = pace(r.draws);
+      return {
+        gb: gamesBehind(recs[leader], r),
+        remaining: remaining[i],
+        magic: i === leader ? magic : null,
+        // 淘汰數字：領先球隊的勝場＋本隊的敗場合計達到這個數就無緣第一
+        elim:
+          i === leader ? null : Math.max(0, maxWins[i] - recs[leader].wins + 1),
+        projected: {
+          wins,
+          draws,
+          losses: Math.max(0, played + remaining[i] - wins - draws),
+        },
+        firstOdds: odds ? odds.first[i] : null,
+        playoffOdds: odds ? odds.top[i] : null,
+      };
+    }),
+  };
+}
@@ -0,0 +1,96 @@
+import { mkdtemp, readFile, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { StandingRow, StandingsQuery } from './records';
+import {
+  gbNumber,
+  readLatestSnapshot,
+  readTrends,
+  recordSnapshot,
+} from './standingsHistory';
+
+const row = (team: string, rank: number, gb: string): StandingRow => ({
+  rank,
+  team,
+  teamId: null,
+  games: 10,
+  wins: 5,
+  draws: 0,
+  losses: 5,
+  winRate: 0.5,
+  gb,
+  elim: '',
+  streak: '',
+  last10: '5-0-5',
+});
+
+const season = (year: number): StandingsQuery => ({
+  year,
+  kindCode: 'A',
+  half: 0,
+});
+
+describe('recordSnapshot', () => {
+  let file: string;
+  beforeEach(async () => {
+    file = path.join(await mkdtemp(path.join(tmpdir(), 'history-')), 'h.json');
+  });
+
+  it('keeps concurrent writes for different seasons', async () => {
+    await Promise.all([
+      recordSnapshot(season(2024), [row('甲', 1, '-')], { file }),
+      recordSnapshot(season(2025), [row('乙', 1, '-')], { file }),
+    ]);
+    expect((await readLatestSnapshot(season(2024), file))?.rows[0].team).toBe(
+      '甲'
+    );
+    expect((await readLatestSnapshot(season(2025), file))?.rows[0].team).toBe(
+      '乙'
+    );
+  });
+
+  it("skips the write when today's snapshot is unchanged", async () => {
+    const rows = [row('甲', 1, '-')];
+    await recordSnapshot(season(2025), rows, { file, date: '2025-06-14' });
+    const before = (await stat(file)).mtimeMs;
+    const content = await readFile(file, 'utf8');
+
+    await recordSnapshot(season(2025), [...rows], { file, date: '2025-06-14' });
+    expect((await stat(file)).mtimeMs).toBe(before);
+    expect(await readFile(file, 'utf8')).toBe(content);
+
+    // 同一天戰績有變才覆寫
+    await recordSnapshot(season(2025), [row('甲', 2, '1')], {
+      file,
+      date: '2025-06-14',
+    });
+    expect((await readLatestSnapshot(season(2025), file))?.rows[0].rank).toBe(
+      2
+    );
+  });
+});
+
+describe('gbNumber', () => {
+  it('reads the leader dash as 0 and a blank cell as unknown', () => {
+    expect(gbNumber('-')).toBe(0);
+    expect(gbNumber('2.5')).toBe(2.5);
+    expect(gbNumber('')).toBeNull();
+    expect(gbNumber('N/A')).toBeNull();
+  });
+
+  it('keeps a missing GB out of the trend', async () => {
+    const file = path.join(
+      await mkdtemp(path.join(tmpdir(), 'history-')),
+      'h.json'
+    );
+    await recordSnapshot(season(2025), [row('甲', 1, '')], {
+      file,
+      date: '2025-06-14',
+    });
+    const [trend] = await readTrends(season(2025), file);
+    expect(trend.points).toEqual([
+      { date: '2025-06-14', rank: 1, winRate: 0.5, gb: null },
+    ]);
+  });
+});
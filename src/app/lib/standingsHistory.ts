@@ -0,0 +1,112 @@
+// 戰績快照歷史：每次抓到戰績就存一份當日快照（同一天內容有變才覆寫），供走勢查詢
+import { promises as fs } from 'fs';
+import path from 'path';
+import { taipeiDate } from './dates';
+import { writeFileAtomic } from './files';
+import type {
+  StandingRow,
+  StandingsQuery,
+  TeamTrend,
+  TrendPoint,
+} from './records';
+
+// { [賽季 key]: { [YYYY-MM-DD]: StandingRow[] } }
+type History = Record<string, Record<string, StandingRow[]>>;
+
+// 歷史檔位置：可用 STANDINGS_HISTORY_PATH 覆寫
+export function historyPath() {
+  return (
+    process.env.STANDINGS_HISTORY_PATH ??
+    path.join(process.cwd(), 'data', 'standings-history.json')
+  );
+}
+
+const seasonKey = (q: StandingsQuery) => `${q.year}-${q.kindCode}-${q.half}`;
+
+async function readHistory(file: string): Promise<History> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as History;
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return {};
+    throw e;
+  }
+}
+
+// 各賽季最近一次存入（或確認已存在）的當日快照，key 為歷史檔 + 賽季；
+// 戰績沒變時每個請求都不必再讀寫整個歷史檔
+const recorded = new Map<string, string>();
+
+// 同一行程內的寫入排隊進行，避免兩個賽季同時讀改寫、後寫的蓋掉先寫的
+let writing: Promise<unknown> = Promise.resolve();
+
+// 存入當日快照；今天已有相同內容的快照時不寫檔
+export async function recordSnapshot(
+  query: StandingsQuery,
+  rows: StandingRow[],
+  { date = taipeiDate(), file = historyPath() } = {}
+) {
+  if (!rows.length) return;
+  const key = seasonKey(query);
+  const memoKey = `${file}:${key}`;
+  const snapshot = `${date}:${JSON.stringify(rows)}`;
+  if (recorded.get(memoKey) === snapshot) return;
+
+  const write = async () => {
+    const history = await readHistory(file);
+    const today = history[key]?.[date];
+    if (!today || `${date}:${JSON.stringify(today)}` !== snapshot) {
+      history[key] = { ...history[key], [date]: rows };
+      await writeFileAtomic(file, JSON.stringify(history));
+    }
+    recorded.set(memoKey, snapshot);
+  };
+  const done = writing.then(write, write);
+  writing = done.catch(() => {});
+  return done;
+}
+
+// 最近一次的戰績快照（官網抓不到時的備援）
+export async function readLatestSnapshot(
+  query: StandingsQuery,
+  file = historyPath()
+): Promise<{ date: string; rows: StandingRow[] } | null> {
+  const snapshots = (await readHistory(file))[seasonKey(query)] ?? {};
+  const date = Object.keys(snapshots).sort().pop();
+  return date ? { date, rows: snapshots[date] } : null;
+}
+
+// 勝差文字轉數字：領先球隊官網顯示 "-"，視為 0；沒有勝差（欄位空白）為 null
+export function gbNumber(text: string): number | null {
+  if (!text) return null;
+  if (text === '-') return 0;
+  const n = Number(text);
+  return Number.isFinite(n) ? n : null;
+}
+
+// 依球隊整理出各日的排名/勝率/勝差走勢（依日期舊到新）
+export async function readTrends(
+  query: StandingsQuery,
+  file = historyPath()
+): Promise<TeamTrend[]> {
+  const snapshots = (await readHistory(file))[seasonKey(query)] ?? {};
+  const byTeam = new Map<string, TeamTrend>();
+
+  for (const date of Object.keys(snapshots).sort()) {
+    for (const r of snapshots[date]) {
+      const key = r.teamId ?? r.team;
+      let trend = byTeam.get(key);
+      if (!trend) {
+        trend = { team: r.team, teamId: r.teamId, points: [] };
+        byTeam.set(key, trend);
+      }
+      const point: TrendPoint = {
+        date,
+        rank: r.rank,
+        winRate: r.winRate,
+        gb: gbNumber(r.gb),
+      };
+      trend.points.push(point);
+    }
+  }
+  return [...byTeam.values()];
+}
@@ -0,0 +1,107 @@
+// 球隊登錄表：隊名別名、代表色與 logo，供 API 路由與前端共用
+
+export type TeamId =
+  | 'brothers'
+  | 'lions'
+  | 'monkeys'
+  | 'guardians'
+  | 'dragons'
+  | 'hawks';
+
+export type Team = {
+  id: TeamId;
+  name: string; // 現行全名
+  short: string; // 篩選按鈕上顯示的簡稱
+  aliases: string[]; // 標題/官網可能出現的寫法（含舊隊名）
+  color: string;
+  logo: string;
+};
+
+export const TEAMS: Team[] = [
+  {
+    id: 'monkeys',
+    name: '樂天桃猿',
+    short: '樂天',
+    aliases: ['樂天桃猿', '樂天', '桃猿', 'Lamigo桃猿', 'Lamigo'],
+    color: '#7a0026',
+    logo: '/teams/monkeys.svg',
+  },
+  {
+    id: 'brothers',
+    name: '中信兄弟',
+    short: '中信',
+    aliases: ['中信兄弟', '中信', '兄弟'],
+    color: '#f2b500',
+    logo: '/teams/brothers.svg',
+  },
+  {
+    id: 'guardians',
+    name: '富邦悍將',
+    short: '富邦',
+    aliases: ['富邦悍將', '富邦', '悍將', '義大犀牛'],
+    color: '#004b97',
+    logo: '/teams/guardians.svg',
+  },
+  {
+    id: 'lions',
+    name: '統一7-ELEVEn獅',
+    short: '統一',
+    aliases: ['統一7-ELEVEn獅', '統一獅', '統一', '7-ELEVEn獅'],
+    color: '#f26f21',
+    logo: '/teams/lions.svg',
+  },
+  {
+    id: 'dragons',
+    name: '味全龍',
+    short: '味全',
+    aliases: ['味全龍', '味全'],
+    color: '#d6001c',
+    logo: '/teams/dragons.svg',
+  },
+  {
+    id: 'hawks',
+    name: '台鋼雄鷹',
+    short: '台鋼',
+    aliases: ['台鋼雄鷹', '台鋼', '雄鷹', 'TSG'],
+    color: '#005b4f',
+    logo: '/teams/hawks.svg',
+  },
+];
+
+const byId = new Map(TEAMS.map((t) => [t.id, t]));
+
+export function getTeam(id: string | null | undefined): Team | null {
+  return (id && byId.get(id as TeamId)) || null;
+}
+
+export function isTeamId(id: string): id is TeamId {
+  return byId.has(id as TeamId);
+}
+
+// 球隊頁網址：/team/brothers
+export function teamPath(id: TeamId) {
+  return `/team/${id}`;
+}
+
+// 比對前統一格式：去空白、英文轉小寫
+const norm = (s: string) => s.replace(/\s/g, '').toLowerCase();
+
+// 依別名找出文字中提到的所有球隊，依第一次出現的位置排序
+export function findTeams(text: string): TeamId[] {
+  const t = norm(text);
+  const hits: { id: TeamId; at: number }[] = [];
+  for (const team of TEAMS) {
+    const positions = team.aliases
+      .map((a) => t.indexOf(norm(a)))
+      .filter((i) => i >= 0);
+    if (positions.length)
+      hits.push({ id: team.id, at: Math.min(...positions) });
+  }
+  return hits.sort((a, b) => a.at - b.at).map((h) => h.id);
+}
+
+// 單一隊名（例如官網戰績列、標題解析出的隊名）對應到球隊 id
+export function resolveTeam(name: string | null | undefined): TeamId | null {
+  if (!name) return null;
+  return findTeams(name)[0] ?? null;
+}
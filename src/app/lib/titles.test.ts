@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import type { GameMeta } from './highlights';
+import { parseGameTitle } from './titles';
+
+// 官方頻道歷年用過的標題格式；publishedAt 為影片上架時間（只有 MM/DD 時用來推年份）
+const GAMES: [
+  title: string,
+  publishedAt: string,
+  expected: Partial<GameMeta>
+][] = [
+  [
+    '【全場精華】05/14 中信兄弟 vs 統一7-ELEVEn獅｜G93',
+    '2025-05-14T14:00:00Z',
+    {
+      awayTeamId: 'brothers',
+      homeTeamId: 'lions',
+      gameDate: '2025-05-14',
+      gameNo: 93,
+      score: null,
+    },
+  ],
+  [
+    '【全場精華】06/14 樂天桃猿 vs 味全龍｜G122',
+    '2025-06-14T13:58:40Z',
+    {
+      awayTeam: '樂天桃猿',
+      homeTeam: '味全龍',
+      awayTeamId: 'monkeys',
+      homeTeamId: 'dragons',
+      gameDate: '2025-06-14',
+      gameNo: 122,
+    },
+  ],
+  // 跨年上架：日期在上架時間之後的月份，算前一年
+  [
+    '【全場精華】12/30 中信兄弟 vs 味全龍｜G1',
+    '2026-01-02T01:00:00Z',
+    { gameDate: '2025-12-30', gameNo: 1 },
+  ],
+  // 年份看台灣時間：UTC 12/31 16:30 已是台灣 1/1 00:30
+  [
+    '【全場精華】01/01 中信兄弟 vs 味全龍｜G2',
+    '2025-12-31T16:30:00Z',
+    { gameDate: '2026-01-01', gameNo: 2 },
+  ],
+  [
+    '【全場精華】12/31 中信兄弟 vs 味全龍｜G1',
+    '2025-12-31T16:30:00Z',
+    { gameDate: '2025-12-31', gameNo: 1 },
+  ],
+  [
+    '2024/04/02 #樂天桃猿 VS #味全龍 全場精華 | 中華職棒35年例行賽',
+    '2024-04-02T14:00:00Z',
+    {
+      awayTeam: '樂天桃猿',
+      homeTeam: '味全龍',
+      awayTeamId: 'monkeys',
+      homeTeamId: 'dragons',
+      gameDate: '2024-04-02',
+      gameNo: null,
+    },
+  ],
+  [
+    '中華職棒35年 例行賽 第120場 富邦悍將 3:5 台鋼雄鷹 全場精華',
+    '2024-06-01T14:00:00Z',
+    {
+      awayTeamId: 'guardians',
+      homeTeamId: 'hawks',
+      score: { away: 3, home: 5 },
+      gameDate: null,
+      gameNo: 120,
+    },
+  ],
+  [
+    '2023年9月3日 統一獅 對 中信兄弟 比數 2比1 全場精華',
+    '2023-09-03T14:00:00Z',
+    {
+      awayTeam: '統一獅',
+      homeTeam: '中信兄弟',
+      awayTeamId: 'lions',
+      homeTeamId: 'brothers',
+      score: { away: 2, home: 1 },
+      gameDate: '2023-09-03',
+      gameNo: null,
+    },
+  ],
+];
+
+// 不是單場比賽的影片：不能解析出任何比賽資訊
+const NOT_GAMES = [
+  'Private video',
+  'Deleted video',
+  '【賽後訪問】江坤宇：今天打得很順',
+  '【精彩好球】本週十大好球 Top 10',
+  '2025 中華職棒 明星賽 全場精華',
+];
+
+const EMPTY: GameMeta = {
+  awayTeam: null,
+  homeTeam: null,
+  awayTeamId: null,
+  homeTeamId: null,
+  score: null,
+  gameDate: null,
+  gameNo: null,
+};
+
+describe('parseGameTitle', () => {
+  it.each(GAMES)('%s', (title, publishedAt, expected) => {
+    expect(parseGameTitle(title, publishedAt)).toMatchObject(expected);
+  });
+
+  it.each(NOT_GAMES)('rejects %s', (title) => {
+    expect(parseGameTitle(title, '2025-06-14T13:58:40Z')).toEqual(EMPTY);
+  });
+
+  it('rejects impossible dates and unknown teams', () => {
+    expect(
+      parseGameTitle('【全場精華】13/45 甲隊 vs 乙隊', '2025-06-14T13:58:40Z')
+    ).toMatchObject({ gameDate: null, awayTeamId: null, homeTeamId: null });
+  });
+
+  it('needs a valid upload time to infer the year', () => {
+    expect(
+      parseGameTitle('【全場精華】05/14 中信兄弟 vs 統一7-ELEVEn獅｜G93', '')
+        .gameDate
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+// 全場精華標題解析：從 YouTube 標題取出日期、對戰隊伍、比數與場次編號
+//
+// 官方頻道歷年用過的標題格式（解析器需同時支援，完整清單與預期結果見 titles.test.ts）：
+//   【全場精華】05/14 中信兄弟 vs 統一7-ELEVEn獅｜G93
+//   2024/04/02 #樂天桃猿 VS #味全龍 全場精華 | 中華職棒35年例行賽
+//   中華職棒35年 例行賽 第120場 富邦悍將 3:5 台鋼雄鷹 全場精華
+//   2023年9月3日 統一獅 對 中信兄弟 比數 2比1 全場精華
+import { taipeiDate } from './dates';
+import type { GameMeta, GameScore } from './highlights';
+import { resolveTeam } from './teams';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function validDate(y: number, m: number, d: number) {
+  return m >= 1 && m <= 12 && d >= 1 && d <= 31
+    ? `${y}-${pad(m)}-${pad(d)}`
+    : null;
+}
+
+// 日期：完整年月日優先；只有 MM/DD 時用上架時間推年份（跨年上架時往前一年）
+function parseDate(text: string, publishedAt: string): string | null {
+  const full = text.match(
+    /(\d{4})\s*[/.\-年]\s*(\d{1,2})\s*[/.\-月]\s*(\d{1,2})/
+  );
+  if (full) return validDate(+full[1], +full[2], +full[3]);
+
+  const short = text.match(/(?<![\d/])(\d{1,2})\s*[/.月]\s*(\d{1,2})(?![\d/])/);
+  if (!short) return null;
+  const pub = new Date(publishedAt);
+  if (!Number.isFinite(pub.getTime())) return null;
+  // 上架時間的年月以台灣時間為準，不受伺服器時區影響
+  const [pubYear, pubMonth] = taipeiDate(pub).split('-').map(Number);
+  const m = +short[1];
+  const d = +short[2];
+  return validDate(m > pubMonth ? pubYear - 1 : pubYear, m, d);
+}
+
+// 隊名：去掉 hashtag 與黏在前面的日期
+const cleanTeam = (s: string) => s.replace(/^#/, '').replace(/^[\d/.\-]+/, '');
+
+const TEAM = '#?([^\\s#|｜]+)';
+// 「A 3:5 B」（比數夾在兩隊中間）
+const TEAMS_WITH_SCORE = new RegExp(
+  `${TEAM}\\s+(\\d{1,2})\\s*[:：比]\\s*(\\d{1,2})\\s+${TEAM}`
+);
+// 「A vs B」「A 對 B」
+const TEAMS_VS = new RegExp(
+  `${TEAM}\\s*(?:vs\\.?|v\\.s\\.?|ＶＳ|對)\\s*${TEAM}`,
+  'i'
+);
+const SCORE = /(?<![\d/])(\d{1,2})\s*[:：比]\s*(\d{1,2})(?![\d/])/;
+const GAME_NO = /(?:\bG\s*(\d{1,3})\b|第\s*(\d{1,3})\s*場)/i;
+
+export function parseGameTitle(title: string, publishedAt: string): GameMeta {
+  // 去掉【全場精華】之類的括號標籤與關鍵字，避免被誤認為隊名
+  const text = title
+    .replace(/【[^】]*】|\[[^\]]*\]/g, ' ')
+    .replace(/全場精華/g, ' ');
+
+  let awayTeam: string | null = null;
+  let homeTeam: string | null = null;
+  let score: GameScore | null = null;
+
+  const ws = text.match(TEAMS_WITH_SCORE);
+  if (ws) {
+    awayTeam = cleanTeam(ws[1]);
+    homeTeam = cleanTeam(ws[4]);
+    score = { away: +ws[2], home: +ws[3] };
+  } else {
+    const vs = text.match(TEAMS_VS);
+    if (vs) {
+      awayTeam = cleanTeam(vs[1]);
+      homeTeam = cleanTeam(vs[2]);
+    }
+    const s = text.match(SCORE);
+    if (s) score = { away: +s[1], home: +s[2] };
+  }
+
+  const g = text.match(GAME_NO);
+
+  return {
+    awayTeam: awayTeam || null,
+    homeTeam: homeTeam || null,
+    awayTeamId: resolveTeam(awayTeam),
+    homeTeamId: resolveTeam(homeTeam),
+    score,
+    gameDate: parseDate(text, publishedAt),
+    gameNo: g ? Number(g[1] ?? g[2]) : null,
+  };
+}
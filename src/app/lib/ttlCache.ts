@@ -0,0 +1,80 @@
+// 行程內 TTL 快取＋請求合併：同一個 key 同時間只會有一個進行中的請求，其他呼叫者共用結果
+// 失敗的請求不會留在快取裡；過期的值保留到被擠出為止，配額不足時仍可拿來用
+
+type Entry<T> = { value: T; at: number };
+
+export type CacheStats = {
+  size: number;
+  hits: number;
+  misses: number;
+  coalesced: number; // 搭上進行中請求、沒有另外發出的次數
+  stale: number; // 刻意使用過期值的次數
+};
+
+export type TtlCache<T> = {
+  // maxAgeMs 省略時用建立時的 ttlMs；Infinity 表示過期的也照用
+  get(key: string, load: () => Promise<T>, maxAgeMs?: number): Promise<T>;
+  // 不論是否過期，取出目前存著的值
+  peek(key: string): T | undefined;
+  clear(): void;
+  stats(): CacheStats;
+};
+
+export function createTtlCache<T>({
+  ttlMs,
+  maxEntries = 500,
+}: {
+  ttlMs: number;
+  maxEntries?: number;
+}): TtlCache<T> {
+  const entries = new Map<string, Entry<T>>();
+  const inflight = new Map<string, Promise<T>>();
+  const counts = { hits: 0, misses: 0, coalesced: 0, stale: 0 };
+
+  const store = (key: string, value: T) => {
+    // Map 依插入順序，重新插入讓它變成最新；超過上限時擠掉最舊的
+    entries.delete(key);
+    entries.set(key, { value, at: Date.now() });
+    if (entries.size > maxEntries) {
+      entries.delete(entries.keys().next().value!);
+    }
+  };
+
+  return {
+    get(key, load, maxAgeMs = ttlMs) {
+      const hit = entries.get(key);
+      if (hit) {
+        const age = Date.now() - hit.at;
+        if (age <= maxAgeMs) {
+          counts.hits++;
+          if (age > ttlMs) counts.stale++;
+          return Promise.resolve(hit.value);
+        }
+      }
+      const pending = inflight.get(key);
+      if (pending) {
+        counts.coalesced++;
+        return pending;
+      }
+      counts.misses++;
+      const p = load()
+        .then((value) => {
+          store(key, value);
+          return value;
+        })
+        .finally(() => inflight.delete(key));
+      inflight.set(key, p);
+      return p;
+    },
+    peek(key) {
+      return entries.get(key)?.value;
+    },
+    clear() {
+      entries.clear();
+      inflight.clear();
+    },
+    stats() {
+      return { size: entries.size, ...counts };
+    },
+  };
+}
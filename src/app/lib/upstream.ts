@@ -0,0 +1,73 @@
+// 對外部來源（cpbl.com.tw、YouTube Data API）的 fetch 統一從這裡走，方便替換成離線錄製檔
+//
+// 設定 UPSTREAM_FIXTURES_DIR=fixtures 時，所有上游請求改讀 fixtures/ 下的錄製檔（npm run record:fixtures 產生）：
+//   www.cpbl.com.tw/<path>?<query>     → <dir>/cpbl/<fixtureName(url)>.html，依完整查詢參數對應，沒有錄到的網址回 404
+//   www.googleapis.com/youtube/v3/<api> → <dir>/youtube/<api>.json（依 pageToken 取對應回應，第一頁為 ""）
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// 官網網址對應的錄製檔名：路徑以 - 連接，查詢參數依名稱排序接在 __ 後面，
+// 例如 /standings/season?year=2025&kindCode=A&season=0 → standings-season__kindCode=A_season=0_year=2025
+export function fixtureName(url: URL) {
+  const name =
+    url.pathname.replace(/^\/|\/$/g, '').replace(/\//g, '-') || 'index';
+  const query = [...url.searchParams]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([k, v]) => `${k}=${v.replace(/[\\/:]/g, '-')}`)
+    .join('_');
+  return query ? `${name}__${query}` : name;
+}
+
+// 以錄製檔取代 fetch；找不到對應檔案時回 404
+export function fixtureFetch(dir: string): typeof fetch {
+  return (async (input: RequestInfo | URL) => {
+    const url = new URL(
+      typeof input === 'string' || input instanceof URL ? input : input.url
+    );
+    const read = (file: string) =>
+      fs.readFile(path.join(dir, file), 'utf8').catch(() => null);
+
+    if (url.hostname.endsWith('cpbl.com.tw')) {
+      const html = await read(`cpbl/${fixtureName(url)}.html`);
+      return html === null
+        ? new Response('Not Found', { status: 404 })
+        : new Response(html, {
+            status: 200,
+            headers: { 'Content-Type': 'text/html; charset=utf-8' },
+          });
+    }
+
+    if (url.hostname === 'www.googleapis.com') {
+      const api = url.pathname.split('/').pop() ?? '';
+      const recorded = await read(`youtube/${api}.json`);
+      const body = recorded
+        ? JSON.parse(recorded)[url.searchParams.get('pageToken') ?? '']
+        : undefined;
+      return body === undefined
+        ? new Response('{}', { status: 404 })
+        : new Response(JSON.stringify(body), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+          });
+    }
+
+    return new Response('Not Found', { status: 404 });
+  }) as typeof fetch;
+}
+
+const fixturesDir = process.env.UPSTREAM_FIXTURES_DIR;
+let impl: typeof fetch | null = fixturesDir ? fixtureFetch(fixturesDir) : null;
+
+// 是否已改用替代實作（離線錄製檔等），此時不需要真正的 API 金鑰
+export function isUpstreamStubbed() {
+  return impl !== null;
+}
+
+// 替換上游 fetch（傳 null 還原成全域 fetch）
+export function setUpstreamFetch(f: typeof fetch | null) {
+  impl = f;
+}
+
+// 呼叫端一律用這個取代全域 fetch；每次呼叫時才取用全域 fetch，確保替換/還原即時生效
+export const upstreamFetch: typeof fetch = (input, init) =>
+  (impl ?? fetch)(input, init);
@@ -0,0 +1,113 @@
+// 首頁畫面狀態 ↔ 網址查詢參數，讓篩選條件可以加書籤/分享，重新整理也不會遺失
+//
+//   /?type=interviews&team=味全&team=中信&from=2026-05-01&to=2026-05-31&sort=views&year=2025&half=1
+//
+// type 省略＝全場精華，sort 省略＝最新；team 可重複（最多兩隊＝對戰組合），接受簡稱、全名、別名或 id；寫回網址時一律用簡稱
+import {
+  DEFAULT_CONTENT_TYPE,
+  isContentType,
+  type ContentTypeId,
+} from './contentTypes';
+import { isDateString } from './dates';
+import type { HighlightSort } from './highlights';
+import {
+  DEFAULT_KIND_CODE,
+  parseStandingsQuery,
+  type StandingsQuery,
+} from './records';
+import { getTeam, isTeamId, resolveTeam, type TeamId } from './teams';
+
+export type HighlightsView = {
+  type: ContentTypeId;
+  teams: TeamId[];
+  from: string | null; // YYYY-MM-DD
+  to: string | null; // YYYY-MM-DD
+  sort: HighlightSort;
+};
+
+// Server Component 拿到的 searchParams 物件轉成 URLSearchParams
+export function toSearchParams(
+  record: Record<string, string | string[] | undefined>
+) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(record)) {
+    for (const v of Array.isArray(value) ? value : [value]) {
+      if (v !== undefined) params.append(key, v);
+    }
+  }
+  return params;
+}
+
+// 無效的值直接忽略（分享出去的舊網址不該讓整頁壞掉）
+export function parseHighlightsView(params: URLSearchParams): HighlightsView {
+  const teams: TeamId[] = [];
+  for (const raw of params.getAll('team').flatMap((t) => t.split(','))) {
+    const name = raw.trim();
+    const id = isTeamId(name) ? name : resolveTeam(name);
+    if (id && !teams.includes(id)) teams.push(id);
+  }
+  const type = params.get('type') ?? '';
+  const from = params.get('from');
+  const to = params.get('to');
+  return {
+    type: isContentType(type) ? type : DEFAULT_CONTENT_TYPE,
+    teams: teams.slice(-2),
+    from: isDateString(from) ? from : null,
+    to: isDateString(to) ? to : null,
+    sort: params.get('sort') === 'views' ? 'views' : 'latest',
+  };
+}
+
+export function writeHighlightsView(
+  params: URLSearchParams,
+  view: HighlightsView
+) {
+  if (view.type === DEFAULT_CONTENT_TYPE) params.delete('type');
+  else params.set('type', view.type);
+  params.delete('team');
+  view.teams.forEach((id) => params.append('team', getTeam(id)!.short));
+  for (const key of ['from', 'to'] as const) {
+    if (view[key]) params.set(key, view[key]);
+    else params.delete(key);
+  }
+  if (view.sort === 'views') params.set('sort', 'views');
+  else params.delete('sort');
+}
+
+// 今年全年的一軍戰績
+export function defaultStandingsQuery(): StandingsQuery {
+  return {
+    year: new Date().getFullYear(),
+    kindCode: DEFAULT_KIND_CODE,
+    half: 0,
+  };
+}
+
+// 賽季參數無效時退回預設賽季
+export function parseStandingsView(params: URLSearchParams): StandingsQuery {
+  const q = parseStandingsQuery(params);
+  return typeof q === 'string' ? defaultStandingsQuery() : q;
+}
+
+// 與預設相同的值不寫進網址，保持連結簡短
+export function writeStandingsView(params: URLSearchParams, q: StandingsQuery) {
+  const def = defaultStandingsQuery();
+  const set = (key: string, value: string, fallback: string) => {
+    if (value === fallback) params.delete(key);
+    else params.set(key, value);
+  };
+  set('year', String(q.year), String(def.year));
+  set('kindCode', q.kindCode, def.kindCode);
+  set('half', String(q.half), String(def.half));
+}
+
+// 只改動部分參數後以 replaceState 寫回網址（不新增瀏覽紀錄、不觸發重新渲染）
+export function replaceSearchParams(update: (params: URLSearchParams) => void) {
+  const params = new URLSearchParams(window.location.search);
+  update(params);
+  const qs = params.toString();
+  const url = `${window.location.pathname}${qs ? `?${qs}` : ''}`;
+  if (url !== `${window.location.pathname}${window.location.search}`) {
+    window.history.replaceState(window.history.state, '', url);
+  }
+}
@@ -0,0 +1,93 @@
+// 觀看紀錄：每支影片的播放進度與是否看完，存在 localStorage（僅供前端使用）
+
+export type WatchState = {
+  position: number; // 秒
+  duration: number; // 秒，播放器還沒回報時為 0
+  watched: boolean;
+  updatedAt: string;
+};
+
+export type WatchedMap = Record<string, WatchState>;
+
+const STORAGE_KEY = 'cpbl-highlights:watched';
+
+// 看到九成就算看完（片尾通常是賽後訪問或片尾卡）
+export const WATCHED_RATIO = 0.9;
+
+const EMPTY: WatchedMap = {};
+let cache: WatchedMap | null = null;
+const listeners = new Set<() => void>();
+
+// 目前的觀看紀錄；回傳同一個物件參考直到有變動，可直接給 useSyncExternalStore 用
+export function getWatched(): WatchedMap {
+  if (typeof window === 'undefined') return EMPTY;
+  if (!cache) {
+    try {
+      cache = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    } catch {
+      cache = {};
+    }
+  }
+  return cache ?? EMPTY;
+}
+
+// 伺服端渲染時沒有 localStorage，一律視為沒看過
+export function getServerWatched(): WatchedMap {
+  return EMPTY;
+}
+
+function save(next: WatchedMap) {
+  cache = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // 無痕模式或容量滿了：只保留在記憶體
+  }
+  listeners.forEach((l) => l());
+}
+
+// 記錄播放進度；進度超過 WATCHED_RATIO 時標記為看完（看完後不會再變回未看）
+export function saveProgress(id: string, position: number, duration: number) {
+  const prev = getWatched()[id];
+  const watched =
+    !!prev?.watched || (duration > 0 && position / duration >= WATCHED_RATIO);
+  save({
+    ...getWatched(),
+    [id]: { position, duration, watched, updatedAt: new Date().toISOString() },
+  });
+}
+
+export function markWatched(id: string) {
+  const prev = getWatched()[id];
+  save({
+    ...getWatched(),
+    [id]: {
+      position: prev?.duration ?? 0,
+      duration: prev?.duration ?? 0,
+      watched: true,
+      updatedAt: new Date().toISOString(),
+    },
+  });
+}
+
+// 續播位置：沒看完且看了一段才續播，快到結尾就從頭開始
+export function resumeAt(state: WatchState | undefined) {
+  if (!state || state.watched || state.position < 5) return 0;
+  if (state.duration && state.position > state.duration - 10) return 0;
+  return Math.floor(state.position);
+}
+
+// 訂閱變動（含其他分頁透過 storage 事件寫入的紀錄）
+export function subscribeWatched(listener: () => void) {
+  listeners.add(listener);
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    cache = null;
+    listener();
+  };
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
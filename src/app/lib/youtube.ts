@@ -0,0 +1,274 @@
+// YouTube Data API 存取：playlistItems 分頁抓取、videos.list 補充資訊與 Video 轉換（API 路由與同步指令共用）
+import type { LiveStatus, Video, VideoDetails } from './highlights';
+import {
+  QuotaExhaustedError,
+  markExhausted,
+  shouldConserve,
+  spend,
+} from './quota';
+import { parseGameTitle } from './titles';
+import { createTtlCache } from './ttlCache';
+import { isUpstreamStubbed, upstreamFetch } from './upstream';
+
+export const YT = 'https://www.googleapis.com/youtube/v3';
+export const FULLGAME_PLAYLIST_ID = 'PL5xHQ8qHh3i-_s12NFmU2B2zhdFluJLkc';
+
+// 每次向 YouTube 要的筆數（API 上限 50）
+export const UPSTREAM_PAGE_SIZE = 50;
+
+// 同一頁在這段時間內重複要，直接用行程內快取（可用 YOUTUBE_CACHE_TTL_SECONDS 調整）
+const PAGE_CACHE_TTL_MS =
+  (Number(process.env.YOUTUBE_CACHE_TTL_SECONDS) || 60) * 1000;
+
+export type PlaylistPage = {
+  items: Video[];
+  nextPageToken: string | null;
+};
+
+// YouTube API 回應中的 item（playlistItems、videos、search 共用）；只列出會讀到的欄位
+type YouTubeItem = {
+  id?: string | { videoId?: string }; // search 為 { videoId }，videos 為字串
+  snippet?: {
+    title?: string;
+    channelTitle?: string;
+    publishedAt?: string;
+    thumbnails?: Partial<
+      Record<'default' | 'medium' | 'high', { url?: string }>
+    >;
+    resourceId?: { videoId?: string };
+  };
+  contentDetails?: { videoPublishedAt?: string; duration?: string };
+  statistics?: { viewCount?: string; likeCount?: string };
+  status?: { privacyStatus?: string };
+  liveStreamingDetails?: { actualStartTime?: string; actualEndTime?: string };
+};
+
+type YouTubeList = { items?: YouTubeItem[]; nextPageToken?: string };
+
+// 上游回應非 2xx 時丟出，status 保留 YouTube 的 HTTP 狀態碼
+export class YouTubeError extends Error {
+  constructor(public status: number) {
+    super(`YouTube HTTP ${status}`);
+    this.name = 'YouTubeError';
+  }
+}
+
+// 非 2xx 回應轉成錯誤；403 quotaExceeded / dailyLimitExceeded 代表今天的配額已用完（可能被其他實例用掉）
+async function upstreamError(res: Response) {
+  if (res.status === 403) {
+    const body = await res.json().catch(() => null);
+    const reason = body?.error?.errors?.[0]?.reason;
+    if (reason === 'quotaExceeded' || reason === 'dailyLimitExceeded') {
+      markExhausted();
+      return new QuotaExhaustedError();
+    }
+  }
+  return new YouTubeError(res.status);
+}
+
+// 取第一個不為 null/undefined 的值
+function first<T>(...vals: (T | undefined | null)[]) {
+  return vals.find((v) => v != null) as T;
+}
+
+// 私人/已刪除的影片仍留在播放清單裡（標題為 Private video / Deleted video、沒有縮圖），直接略過
+function isAvailable(item: YouTubeItem) {
+  const privacy = item.status?.privacyStatus;
+  if (privacy && privacy !== 'public' && privacy !== 'unlisted') return false;
+  const title = item.snippet?.title;
+  return title !== 'Private video' && title !== 'Deleted video';
+}
+
+// 將 YouTube 的 item 轉換成前端需要的 Video 格式
+export function toVideo(item: YouTubeItem): Video {
+  const s = item.snippet ?? {};
+  const thumbs = s.thumbnails ?? {};
+  // playlistItems 會提供 contentDetails.videoPublishedAt，通常比 snippet.publishedAt 更準
+  const publishedAt = first(
+    item.contentDetails?.videoPublishedAt,
+    s.publishedAt,
+    ''
+  );
+  // 影片 ID 來源依序嘗試：playlistItems.resourceId.videoId -> search.item.id.videoId -> item.id
+  const id = first(
+    s.resourceId?.videoId,
+    typeof item.id === 'object' ? item.id.videoId : item.id
+  );
+
+  const title = s.title ?? '';
+
+  return {
+    id,
+    title,
+    channelTitle: s.channelTitle ?? '',
+    publishedAt,
+    thumbnail: first(
+      thumbs.high?.url,
+      thumbs.medium?.url,
+      thumbs.default?.url,
+      ''
+    ),
+    // 從標題解析日期、對戰隊伍、比數與場次
+    ...parseGameTitle(title, publishedAt),
+  };
+}
+
+// 播放清單分頁快取，key 為 playlistId + pageToken
+export const playlistCache = createTtlCache<PlaylistPage>({
+  ttlMs: PAGE_CACHE_TTL_MS,
+});
+
+// 抓取播放清單的一頁；同一頁的並行請求合併成一次，TTL 內直接用快取
+// 配額快用完時過期的快取也照用；完全用完且沒有快取時丟出 QuotaExhaustedError
+export async function fetchPlaylistPage(
+  pageToken: string | null,
+  {
+    apiKey = process.env.YOUTUBE_API_KEY ?? '',
+    playlistId = FULLGAME_PLAYLIST_ID,
+  }: { apiKey?: string; playlistId?: string } = {}
+): Promise<PlaylistPage> {
+  const key = `${playlistId}:${pageToken ?? ''}`;
+  const maxAgeMs = shouldConserve() ? Infinity : PAGE_CACHE_TTL_MS;
+  try {
+    return await playlistCache.get(
+      key,
+      () => loadPlaylistPage(pageToken, apiKey, playlistId),
+      maxAgeMs
+    );
+  } catch (e) {
+    const stale = playlistCache.peek(key);
+    if (e instanceof QuotaExhaustedError && stale) return stale;
+    throw e;
+  }
+}
+
+// 實際打 YouTube；預設走 upstreamFetch（可切換成離線錄製檔）
+async function loadPlaylistPage(
+  pageToken: string | null,
+  apiKey: string,
+  playlistId: string
+): Promise<PlaylistPage> {
+  const params = new URLSearchParams({
+    part: 'snippet,contentDetails,status',
+    playlistId,
+    maxResults: String(UPSTREAM_PAGE_SIZE),
+    key: apiKey,
+  });
+  if (pageToken) params.set('pageToken', pageToken);
+
+  spend('playlistItems');
+  const res = await upstreamFetch(`${YT}/playlistItems?${params}`, {
+    // 關掉 Next.js 的 data/fetch cache
+    cache: 'no-store',
+    next: { revalidate: 0 },
+  });
+  if (!res.ok) throw await upstreamError(res);
+
+  const yt: YouTubeList = await res.json();
+  return {
+    items: (yt.items ?? []).filter(isAvailable).map(toVideo),
+    nextPageToken: yt.nextPageToken ?? null,
+  };
+}
+
+// videos.list 一次最多 50 個 id
+const VIDEOS_BATCH_SIZE = 50;
+
+// 觀看數變動較快，但同一批影片幾分鐘內重複查沒有意義
+const DETAILS_CACHE_TTL_MS = 10 * 60 * 1000;
+
+const detailsCache = createTtlCache<Map<string, VideoDetails>>({
+  ttlMs: DETAILS_CACHE_TTL_MS,
+});
+
+// ISO 8601 長度（PT1H2M3S、P1DT2H）轉秒數；直播中/未開始時為 P0D
+export function parseDuration(iso: string | undefined) {
+  const m = iso?.match(
+    /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/
+  );
+  if (!m) return null;
+  const [d, h, min, s] = m.slice(1).map((x) => Number(x ?? 0));
+  const total = d * 86400 + h * 3600 + min * 60 + s;
+  return total > 0 ? total : null;
+}
+
+const count = (s: string | undefined) => (s === undefined ? null : Number(s));
+
+function liveStatus(item: YouTubeItem): LiveStatus {
+  const live = item.liveStreamingDetails;
+  if (!live) return 'none';
+  if (live.actualEndTime) return 'completed';
+  return live.actualStartTime ? 'live' : 'upcoming';
+}
+
+function toDetails(item: YouTubeItem): VideoDetails {
+  return {
+    durationSec: parseDuration(item.contentDetails?.duration),
+    viewCount: count(item.statistics?.viewCount),
+    likeCount: count(item.statistics?.likeCount),
+    privacy: item.status?.privacyStatus === 'unlisted' ? 'unlisted' : 'public',
+    live: liveStatus(item),
+  };
+}
+
+// 查一批影片的詳細資訊；沒有回傳或設為私人的 id 不會出現在結果中
+async function loadDetails(ids: string[], apiKey: string) {
+  const params = new URLSearchParams({
+    part: 'contentDetails,statistics,status,liveStreamingDetails',
+    id: ids.join(','),
+    maxResults: String(VIDEOS_BATCH_SIZE),
+    key: apiKey,
+  });
+
+  spend('videos');
+  const res = await upstreamFetch(`${YT}/videos?${params}`, {
+    cache: 'no-store',
+    next: { revalidate: 0 },
+  });
+  if (!res.ok) throw await upstreamError(res);
+
+  const yt: YouTubeList = await res.json();
+  const details = new Map<string, VideoDetails>();
+  for (const item of yt.items ?? []) {
+    const privacy = item.status?.privacyStatus;
+    if (typeof item.id !== 'string') continue;
+    if (privacy === 'public' || privacy === 'unlisted') {
+      details.set(item.id, toDetails(item));
+    }
+  }
+  return details;
+}
+
+// 補上長度、觀看/按讚數與直播狀態，每 50 支一次 videos.list；
+// videos.list 查不到（已刪除、轉為私人）的影片直接移除。
+// 配額不足或 YouTube 出錯時原樣回傳，不讓列表因為補充資訊失敗而整個壞掉
+export async function enrichVideos(
+  videos: Video[],
+  { apiKey = process.env.YOUTUBE_API_KEY ?? '' }: { apiKey?: string } = {}
+): Promise<Video[]> {
+  // 只有本地索引、沒有 API 金鑰時無法補充
+  if (!apiKey && !isUpstreamStubbed()) return videos;
+  const ids = [...new Set(videos.map((v) => v.id))];
+  const details = new Map<string, VideoDetails>();
+  try {
+    for (let i = 0; i < ids.length; i += VIDEOS_BATCH_SIZE) {
+      const batch = ids.slice(i, i + VIDEOS_BATCH_SIZE);
+      const key = batch.join(',');
+      const maxAgeMs = shouldConserve() ? Infinity : DETAILS_CACHE_TTL_MS;
+      const found = await detailsCache.get(
+        key,
+        () => loadDetails(batch, apiKey),
+        maxAgeMs
+      );
+      found.forEach((d, id) => details.set(id, d));
+    }
+  } catch (e) {
+    if (e instanceof QuotaExhaustedError || e instanceof YouTubeError) {
+      return videos;
+    }
+    throw e;
+  }
+  return videos
+    .filter((v) => details.has(v.id))
+    .map((v) => ({ ...v, details: details.get(v.id) }));
+}
@@ -1,29 +1,125 @@
 // 不要用快取，每次請求都即時拿新資料
 export const dynamic = 'force-dynamic';
 
+import { Suspense } from 'react';
 import HighlightsControls from './components/HighlightsControls';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import LeadersPanel from './components/LeadersPanel';
 import RecordsTable from './components/RecordsTable';
+import TodayGames from './components/TodayGames';
+import type { ContentTypeId } from './lib/contentTypes';
+import { ScrapeError } from './lib/cpbl';
+import {
+  highlightErrorStatus,
+  loadHighlightsPage,
+} from './lib/highlightSearch';
+import {
+  highlightsSearchParams,
+  homeHighlightsRequest,
+  type InitialHighlights,
+} from './lib/highlights';
+import { createTranslator } from './lib/i18n';
+import type { RecordsResponse, StandingsQuery } from './lib/records';
+import { getLocale } from './lib/serverLocale';
+import { availableTypes } from './lib/sources';
+import { loadRecords } from './lib/standings';
+import {
+  parseHighlightsView,
+  parseStandingsView,
+  toSearchParams,
+  type HighlightsView,
+} from './lib/viewState';
 
-export default async function Home() {
-  // 預設：最近 30 天、最多 50 支、關鍵字=全場精華
-  // 不在伺服端抓資料，避免與 Client 無限載入重複
+// 戰績：伺服端直接呼叫共用的 loadRecords（不繞回自己的 API）；
+// 抓不到時交給前端照常向 /api/records 要，由表格顯示錯誤
+async function StandingsSection({ query }: { query: StandingsQuery }) {
+  let initialData: RecordsResponse | undefined;
+  try {
+    initialData = await loadRecords(query);
+  } catch (e) {
+    if (!(e instanceof ScrapeError)) throw e;
+  }
+  return <RecordsTable initialQuery={query} initialData={initialData} />;
+}
+
+// 精華第一頁：與前端列表用同一組條件抓，前端往下捲時從這一頁的游標接著載入；
+// 失敗時交給前端重抓並顯示錯誤
+async function HighlightsSection({
+  view,
+  types,
+}: {
+  view: HighlightsView;
+  types: ContentTypeId[];
+}) {
+  const query = highlightsSearchParams(homeHighlightsRequest(view));
+  let initialHighlights: InitialHighlights | undefined;
+  try {
+    const page = await loadHighlightsPage(query);
+    if (typeof page !== 'string') {
+      // debug 欄位不傳給前端
+      const { items, count, nextCursor } = page;
+      initialHighlights = {
+        query: query.toString(),
+        page: { items, count, nextCursor },
+      };
+    }
+  } catch (e) {
+    if (highlightErrorStatus(e) === null) throw e;
+  }
+  return (
+    <HighlightsControls
+      initialView={view}
+      types={types}
+      initialHighlights={initialHighlights}
+    />
+  );
+}
+
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  // 預設：最近 30 天、每頁 24 支、類型=全場精華
+  // 戰績與精華第一頁在伺服端抓好，各自用 Suspense 串流；之後的分頁與條件變動由前端載入
+  const params = toSearchParams(await searchParams);
+  const t = createTranslator(await getLocale());
+  const standingsView = parseStandingsView(params);
+
+  // 網址指定了沒設定來源的類型時退回第一個（與篩選列的判斷相同）
+  const types = await availableTypes();
+  const parsedView = parseHighlightsView(params);
+  const highlightsView: HighlightsView = {
+    ...parsedView,
+    type: types.includes(parsedView.type) ? parsedView.type : types[0],
+  };
+
+  const loading = (
+    <p className="mb-5 text-sm text-gray-600">{t('highlights.loading')}</p>
+  );
 
   return (
     <main className="mx-auto max-w-5xl px-6 py-8">
-      <header className="mb-6">
-        <h1 className="text-3xl font-semibold tracking-tight text-gray-900">
-          中華職棒 全場精華
-        </h1>
-        <p className="mt-1 text-sm text-gray-600">
-          <a href="https://www.youtube.com/@CPBL">
-            來源：CPBL 中華職棒 Youtube 官方頻道
-          </a>
-        </p>
+      <header className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold tracking-tight text-gray-900">
+            {t('home.heading')}
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            <a href="https://www.youtube.com/@CPBL">{t('home.source')}</a>
+          </p>
+        </div>
+        <LanguageSwitcher />
       </header>
 
-      <RecordsTable />
-      {/* Client 無限載入（避免 SSR + Client 重複載入與重複渲染） */}
-      <HighlightsControls />
+      <TodayGames />
+      <Suspense fallback={loading}>
+        <StandingsSection query={standingsView} />
+      </Suspense>
+      <LeadersPanel year={standingsView.year} />
+      <Suspense fallback={loading}>
+        <HighlightsSection view={highlightsView} types={types} />
+      </Suspense>
     </main>
   );
 }
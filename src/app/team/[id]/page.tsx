@@ -0,0 +1,268 @@
+// 球隊頁：戰績列與近況、對戰成績、近期賽程，以及該隊的全場精華
+export const dynamic = 'force-dynamic';
+
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import DataTable from '../../components/DataTable';
+import HighlightsList from '../../components/HighlightsList';
+import Section from '../../components/Section';
+import { ScrapeError } from '../../lib/cpbl';
+import { addDays, taipeiDate } from '../../lib/dates';
+import { gamePath, type Game } from '../../lib/games';
+import {
+  createTranslator,
+  gameStatusLabel,
+  localStreak,
+  localTeamName,
+  teamName,
+} from '../../lib/i18n';
+import { DEFAULT_KIND_CODE } from '../../lib/records';
+import { loadSchedule } from '../../lib/schedule';
+import { getLocale } from '../../lib/serverLocale';
+import { loadStandings } from '../../lib/standings';
+import { getTeam, teamPath, type TeamId } from '../../lib/teams';
+
+type Params = Promise<{ id: string }>;
+
+// 近期賽程往後看幾天（每天一次官網請求，loadSchedule 依日期快取）
+const UPCOMING_DAYS = 7;
+
+// 「6-0-4」拆成勝/和/敗
+function parseLast10(s: string) {
+  const [wins, draws, losses] = s.split('-').map(Number);
+  return [wins, draws, losses].every(Number.isInteger)
+    ? { wins, draws, losses }
+    : null;
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Params;
+}): Promise<Metadata> {
+  const team = getTeam((await params).id);
+  if (!team) return {};
+  const locale = await getLocale();
+  const t = createTranslator(locale);
+  return { title: `${teamName(team, locale)}｜${t('site.title')}` };
+}
+
+// 近十場：勝/和/敗依序排成色塊
+function FormBar({
+  wins,
+  draws,
+  losses,
+}: {
+  wins: number;
+  draws: number;
+  losses: number;
+}) {
+  const blocks = [
+    ...Array<string>(wins).fill('bg-green-500'),
+    ...Array<string>(draws).fill('bg-gray-300'),
+    ...Array<string>(losses).fill('bg-red-400'),
+  ];
+  return (
+    <div className="flex gap-0.5" aria-hidden>
+      {blocks.map((cls, i) => (
+        <span key={i} className={`h-3 w-3 rounded-sm ${cls}`} />
+      ))}
+    </div>
+  );
+}
+
+export default async function TeamPage({ params }: { params: Params }) {
+  const team = getTeam((await params).id);
+  if (!team) notFound();
+  const locale = await getLocale();
+  const t = createTranslator(locale);
+
+  // 戰績與近期賽程同時抓；任何一項失敗都只是少一塊
+  const today = taipeiDate();
+  const [{ standings, standingsErr }, schedule] = await Promise.all([
+    loadStandings({
+      year: Number(today.slice(0, 4)),
+      kindCode: DEFAULT_KIND_CODE,
+      half: 0,
+    }).then(
+      (s) => ({ standings: s, standingsErr: null }),
+      (e) => {
+        if (!(e instanceof ScrapeError)) throw e;
+        return { standings: null, standingsErr: `${e.code}：${e.message}` };
+      }
+    ),
+    Promise.all(
+      Array.from({ length: UPCOMING_DAYS }, (_, i) =>
+        loadSchedule(addDays(today, i)).catch(() => [] as Game[])
+      )
+    ),
+  ]);
+
+  const rows = standings?.parsed.rows ?? [];
+  const row = rows.find((r) => r.teamId === team.id) ?? null;
+  const last10 = row ? parseLast10(row.last10) : null;
+
+  // 對戰矩陣中本隊那一列（退回快照時沒有矩陣）
+  const h2h = standings?.parsed.h2h;
+  const me = h2h ? h2h.teamIds.indexOf(team.id) : -1;
+  const opponents =
+    h2h && me >= 0
+      ? h2h.teams
+          .map((name, j) => ({
+            name,
+            id: h2h.teamIds[j],
+            rec: h2h.matrix[me][j],
+          }))
+          .filter((_, j) => j !== me)
+      : [];
+
+  // 今天起還沒結束的比賽
+  const upcoming = schedule
+    .flat()
+    .filter(
+      (g) =>
+        (g.awayTeamId === team.id || g.homeTeamId === team.id) &&
+        g.status !== 'final'
+    );
+
+  const teamLink = (id: TeamId | null, name: string) =>
+    id ? (
+      <Link href={teamPath(id)} className="hover:underline">
+        {localTeamName(name, locale)}
+      </Link>
+    ) : (
+      localTeamName(name, locale)
+    );
+
+  return (
+    <main className="mx-auto max-w-5xl px-6 py-8">
+      <header className="mb-6">
+        <Link href="/" className="text-sm text-gray-600 hover:underline">
+          {t('game.back')}
+        </Link>
+        <div className="mt-2 flex items-center gap-3">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={team.logo} alt="" width={40} height={40} />
+          <h1
+            className="border-b-4 text-3xl font-semibold tracking-tight text-gray-900"
+            style={{ borderColor: team.color }}
+          >
+            {teamName(team, locale)}
+          </h1>
+        </div>
+        {row?.teamUrl && (
+          <p className="mt-1 text-sm text-gray-600">
+            <a
+              href={row.teamUrl}
+              target="_blank"
+              rel="noreferrer"
+              className="hover:underline"
+            >
+              {t('team.official')}
+            </a>
+          </p>
+        )}
+      </header>
+
+      <Section title={t('team.standings')}>
+        {row ? (
+          <DataTable
+            headers={[
+              t('standings.rank'),
+              t('standings.games'),
+              t('standings.wdl'),
+              t('standings.winRate'),
+              t('standings.gb'),
+              t('standings.streak'),
+              t('standings.last10'),
+            ]}
+            rows={[
+              [
+                row.rank,
+                row.games,
+                [row.wins, row.draws, row.losses]
+                  .map((v) => (v === null ? '-' : v))
+                  .join('-'),
+                row.winRate === null ? null : row.winRate.toFixed(3),
+                row.gb,
+                localStreak(row.streak, locale),
+                row.last10,
+              ],
+            ]}
+          />
+        ) : (
+          standingsErr && (
+            <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              {t('team.standingsError', { error: standingsErr })}
+            </div>
+          )
+        )}
+        {last10 && (
+          <div className="mt-3 flex items-center gap-3 text-sm text-gray-700">
+            <span className="font-medium">{t('team.form')}</span>
+            <FormBar {...last10} />
+            <span>{t('team.last10', last10)}</span>
+          </div>
+        )}
+      </Section>
+
+      {opponents.length > 0 && (
+        <Section title={t('team.h2h')}>
+          <DataTable
+            headers={[t('standings.team'), t('standings.wdl')]}
+            rows={opponents.map((o) => [
+              teamLink(o.id, o.name),
+              o.rec ? `${o.rec.wins}-${o.rec.draws}-${o.rec.losses}` : null,
+            ])}
+          />
+        </Section>
+      )}
+
+      <Section title={t('team.upcoming')}>
+        {upcoming.length ? (
+          <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white text-sm shadow-sm">
+            {upcoming.map((g) => {
+              const home = g.homeTeamId === team.id;
+              const oppId = home ? g.awayTeamId : g.homeTeamId;
+              const oppName = home ? g.awayTeam : g.homeTeam;
+              return (
+                <li
+                  // 場次編號可能解析不到，加上兩隊才不會撞 key
+                  key={`${g.date}-${g.gameNo}-${g.awayTeam}-${g.homeTeam}`}
+                  className="flex flex-wrap items-center gap-x-3 px-3 py-2"
+                >
+                  <span className="font-mono text-gray-600">{g.date}</span>
+                  <span className="text-gray-900">
+                    {home ? 'vs ' : '@ '}
+                    {teamLink(oppId, oppName)}
+                  </span>
+                  <span className="text-gray-500">
+                    {gameStatusLabel(g, locale, t)}
+                    {g.venue && ` · ${g.venue}`}
+                  </span>
+                  {g.awayTeamId && g.homeTeamId && g.status === 'live' && (
+                    <Link
+                      href={gamePath(g.date, g.awayTeamId, g.homeTeamId)}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {t('common.gameInfo')}
+                    </Link>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-600">
+            {t('team.noUpcoming', { days: UPCOMING_DAYS })}
+          </p>
+        )}
+      </Section>
+
+      <Section title={t('team.highlights')}>
+        <HighlightsList teams={[team.id]} recentDays={60} pageSize={12} />
+      </Section>
+    </main>
+  );
+}
@@ -0,0 +1,15 @@
+// 測試一律離線：不讀寫 data/ 下的本機檔案、不帶真正的 API 金鑰；
+// 每個測試檔各自一個暫存目錄，需要寫檔的測試自己再指定檔名
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'cpbl-test-'));
+
+process.env.STANDINGS_HISTORY_PATH = path.join(dir, 'standings-history.json');
+process.env.HIGHLIGHTS_INDEX_PATH = path.join(dir, 'highlights-index.json');
+process.env.HIGHLIGHT_SOURCES_PATH = path.join(dir, 'sources.json');
+process.env.WEBHOOKS_CONFIG = path.join(dir, 'webhooks.json');
+process.env.NOTIFY_STATE_PATH = path.join(dir, 'notify-state.json');
+delete process.env.YOUTUBE_API_KEY;
+delete process.env.UPSTREAM_FIXTURES_DIR;